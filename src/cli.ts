@@ -0,0 +1,73 @@
+#!/usr/bin/env node
+import { writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import { formatEnvExample, formatEnvJson, formatEnvMarkdown } from './docs/format.js';
+import { ZodConfSchema } from './values/define.js';
+
+const usage = `Usage: zod-conf <format> <module> [--export <name>] [--out <file>]
+
+Generates environment variable documentation from a schema created with define().
+
+Formats:
+  env-example   .env.example file
+  markdown      Markdown table
+  json          JSON manifest
+
+Options:
+  --export, -e  Name of the exported schema (default: the default export)
+  --out, -o     Write to a file instead of stdout
+  --help, -h    Show this help
+`;
+
+const formatters: Record<string, (schema: ZodConfSchema<any>) => string> = {
+  'env-example': formatEnvExample,
+  markdown: formatEnvMarkdown,
+  json: formatEnvJson,
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      export: { type: 'string', short: 'e' },
+      out: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const [format, modulePath] = positionals;
+
+  if (values.help) {
+    process.stdout.write(usage);
+    return;
+  }
+
+  const formatter = format ? formatters[format] : undefined;
+
+  if (!formatter || !modulePath) {
+    throw new Error(`Expected a format and a module\n\n${usage}`);
+  }
+
+  const module = await import(pathToFileURL(resolve(modulePath)).href);
+  const exportName = values.export ?? 'default';
+  const schema = module[exportName];
+
+  if (!(schema instanceof ZodConfSchema)) {
+    throw new Error(`Export "${exportName}" of ${modulePath} is not a schema created with define()`);
+  }
+
+  const output = formatter(schema);
+
+  if (values.out) {
+    writeFileSync(values.out, output);
+  } else {
+    process.stdout.write(output);
+  }
+};
+
+main().catch((error: Error) => {
+  process.stderr.write(`${error.message}\n`);
+  process.exitCode = 1;
+});
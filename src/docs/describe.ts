@@ -0,0 +1,219 @@
+import { ZodObject, type ZodRawShape, type ZodType } from 'zod';
+import { toFlagName } from '../loaders/argv.js';
+import { isAlwaysComputed } from '../values/computed.js';
+import { getShape, type ZodConfSchema } from '../values/define.js';
+import {
+  findEnvMetadata,
+  findRecordMetadata,
+  findUnionMetadata,
+  unwrapOnce,
+  unwrapSchema,
+} from '../values/env-metadata.js';
+import {
+  createArgvBinding,
+  enterBranch,
+  enterObject,
+  enterRecordEntry,
+  resolveBinding,
+  rootScope,
+  type KeyScope,
+} from '../values/keys.js';
+
+/**
+ * Describes a single environment variable bound in a configuration schema.
+ */
+export type EnvVarInfo = {
+  // environment variable name
+  key: string;
+  // other accepted names, in priority order
+  fallbackKeys?: string[];
+  // accepted names that produce a deprecation warning
+  deprecatedKeys?: string[];
+  // dotted path of the field in the loaded configuration
+  path: string;
+  // binding type: 'string', 'number', 'boolean', 'enum', 'array', 'json', 'duration', 'bytes', 'url', 'date',
+  // 'port', 'bigint', 'custom' or the name of a type registered with `registerEnvType()`
+  type: string;
+  required: boolean;
+  secret: boolean;
+  // the value may also be read from the file named by <KEY>_FILE
+  fromFile?: boolean;
+  // zod default, omitted for secrets
+  default?: unknown;
+  description?: string;
+  // allowed values of enums and enum arrays
+  values?: (string | number)[];
+  // separator of array bindings
+  separator?: string;
+  // the variable is only used when the discriminator of its section has this value, e.g. `STORAGE_KIND=s3`
+  condition?: string;
+};
+
+/**
+ * Describes a field of a configuration schema. Fields without an env binding have no key and are described by
+ * the binding their command line flag is parsed with.
+ */
+export type FieldInfo = Omit<EnvVarInfo, 'key'> & { key?: string };
+
+const findDescription = (schema: ZodType): string | undefined => {
+  let currentSchema: ZodType | undefined = schema;
+
+  while (currentSchema) {
+    if (currentSchema.description) {
+      return currentSchema.description;
+    }
+
+    currentSchema = unwrapOnce(currentSchema);
+  }
+
+  return undefined;
+};
+
+const findDefault = (schema: ZodType): { value: unknown } | undefined => {
+  let currentSchema: ZodType | undefined = schema;
+
+  while (currentSchema) {
+    const def = (currentSchema as any)._def;
+
+    if (def?.type === 'default') {
+      return { value: def.defaultValue };
+    }
+
+    currentSchema = unwrapOnce(currentSchema);
+  }
+
+  return undefined;
+};
+
+// read from the schema rather than by parsing `undefined`, which would run refinements, async ones included
+const isRequired = (schema: ZodType): boolean => schema._zod.optin !== 'optional';
+
+const findEnumValues = (schema: ZodType): (string | number)[] | undefined => {
+  const base = unwrapSchema(schema) as any;
+
+  return base._def?.type === 'enum' ? [...base.options] : undefined;
+};
+
+const describeShape = (shape: ZodRawShape, path: string[], scope: KeyScope): FieldInfo[] =>
+  Object.entries(shape).flatMap(([key, value]) => {
+    const schema = value as ZodType;
+    const fieldPath = [...path, key];
+
+    // no loader sets computed fields
+    if (isAlwaysComputed(schema)) {
+      return [];
+    }
+
+    if (schema instanceof ZodObject && !findEnvMetadata(schema)) {
+      return describeShape(schema.shape, fieldPath, enterObject(scope, key, schema));
+    }
+
+    const record = findRecordMetadata(schema);
+
+    if (record) {
+      // entries are documented once, with placeholders for the entry name
+      return describeShape(record.entry.shape, [...fieldPath, '<name>'], enterRecordEntry(scope, record, '<NAME>'));
+    }
+
+    const union = findUnionMetadata(schema);
+
+    if (union) {
+      const unionScope = enterObject(scope, key, schema);
+      // the discriminator is required when the section is
+      const discriminator = describeShape({ [union.property]: union.discriminator }, fieldPath, unionScope).map(
+        (info) => ({ ...info, required: isRequired(schema) }),
+      );
+      // unbound discriminators are named by their flag
+      const discriminatorKey = discriminator[0]?.key ?? `--${toFlagName([...fieldPath, union.property])}`;
+
+      const branches = Object.entries(union.branches).flatMap(([value, branch]) =>
+        describeShape(branch.shape, fieldPath, enterBranch(unionScope, branch)).map((info) => {
+          const condition = `${discriminatorKey}=${value}`;
+
+          return { ...info, condition: info.condition ? `${condition}, ${info.condition}` : condition };
+        }),
+      );
+
+      return [...discriminator, ...branches];
+    }
+
+    const binding = resolveBinding(schema, key, scope);
+    const metadata = binding ?? createArgvBinding(schema, `--${toFlagName(fieldPath)}`);
+    const info: FieldInfo = {
+      ...(binding ? { key: binding.key } : {}),
+      path: fieldPath.join('.'),
+      type: metadata.type,
+      required: isRequired(schema),
+      secret: !!metadata.secret,
+    };
+
+    const defaultValue = findDefault(schema);
+    const description = findDescription(schema);
+    const values = findEnumValues(metadata.item ?? schema);
+
+    if (defaultValue && !metadata.secret) {
+      info.default = defaultValue.value;
+    }
+
+    if (description) {
+      info.description = description;
+    }
+
+    if (values) {
+      info.values = values;
+    }
+
+    if (metadata.fromFile) {
+      info.fromFile = true;
+    }
+
+    if (metadata.fallbackKeys) {
+      info.fallbackKeys = metadata.fallbackKeys;
+    }
+
+    if (metadata.deprecatedKeys) {
+      info.deprecatedKeys = metadata.deprecatedKeys;
+    }
+
+    if (metadata.separator) {
+      info.separator = metadata.separator;
+    }
+
+    return [info];
+  });
+
+/**
+ * Lists all environment variables bound in a configuration schema, including those in nested objects.
+ *
+ * @param schema - A schema created with `define()`
+ * @returns Environment variables in the order they are declared
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   port: env('PORT').number().default(3000).describe('HTTP port'),
+ *   database: object({
+ *     url: env('DATABASE_URL').secret().string(),
+ *   }),
+ * });
+ *
+ * describeEnv(schema);
+ * // [
+ * //   { key: 'PORT', path: 'port', type: 'number', required: false, secret: false, default: 3000, description: 'HTTP port' },
+ * //   { key: 'DATABASE_URL', path: 'database.url', type: 'string', required: true, secret: true },
+ * // ]
+ * ```
+ */
+export const describeEnv = (schema: ZodConfSchema<any>): EnvVarInfo[] => {
+  return describeFields(schema).filter((info): info is EnvVarInfo => info.key !== undefined);
+};
+
+/**
+ * Lists all fields of a configuration schema, including those without an env binding.
+ *
+ * @param schema - A schema created with `define()`
+ * @returns Fields in the order they are declared
+ */
+export const describeFields = (schema: ZodConfSchema<any>): FieldInfo[] => {
+  return describeShape(getShape(schema), [], rootScope(schema.options));
+};
@@ -0,0 +1,170 @@
+import { toFlagName } from '../loaders/argv.js';
+import { type ZodConfSchema } from '../values/define.js';
+import { bigintReplacer } from '../values/json.js';
+import { describeEnv, describeFields, type FieldInfo } from './describe.js';
+
+// render a value the way it would be written in the environment variable
+const formatValue = (info: FieldInfo, value: unknown): string => {
+  if (Array.isArray(value) && info.type === 'array') {
+    return value.join(info.separator ?? ',');
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (value instanceof URL) {
+    return value.href;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+
+  return String(value);
+};
+
+const formatType = (info: FieldInfo): string => {
+  const values = info.values?.map((value) => String(value)).join('|');
+
+  return values ? `${info.type} (${values})` : info.type;
+};
+
+const escapeCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * Generates the contents of a `.env.example` file from a configuration schema.
+ * Optional variables and variables of discriminated branches without a default are commented out.
+ *
+ * @param schema - A schema created with `define()`
+ * @returns `.env.example` file contents
+ *
+ * @example
+ * ```typescript
+ * writeFileSync('.env.example', formatEnvExample(schema));
+ * ```
+ */
+export const formatEnvExample = (schema: ZodConfSchema<any>): string => {
+  const blocks = describeEnv(schema).map((info) => {
+    const details = [
+      formatType(info),
+      (info.required ? 'required' : 'optional') + (info.condition ? ` when ${info.condition}` : ''),
+      ...(info.secret ? ['secret'] : []),
+      ...(info.fromFile ? [`or file path in ${info.key}_FILE`] : []),
+      ...(info.fallbackKeys ? [`also: ${info.fallbackKeys.join(', ')}`] : []),
+      ...(info.deprecatedKeys ? [`deprecated: ${info.deprecatedKeys.join(', ')}`] : []),
+      ...('default' in info ? [`default: ${formatValue(info, info.default)}`] : []),
+    ];
+
+    const value = 'default' in info ? formatValue(info, info.default) : '';
+    const commented = (!info.required || !!info.condition) && !('default' in info);
+
+    return [
+      ...(info.description ? [`# ${info.description}`] : []),
+      `# ${info.path}: ${details.join(', ')}`,
+      `${commented ? '# ' : ''}${info.key}=${value}`,
+    ].join('\n');
+  });
+
+  return blocks.join('\n\n') + '\n';
+};
+
+/**
+ * Generates a Markdown table documenting all environment variables of a configuration schema.
+ *
+ * @param schema - A schema created with `define()`
+ * @returns Markdown table
+ */
+export const formatEnvMarkdown = (schema: ZodConfSchema<any>): string => {
+  const rows = describeEnv(schema).map((info) => {
+    const type = info.values ? `${info.type}: ${info.values.map((value) => `\`${value}\``).join(', ')}` : info.type;
+    const defaultValue = 'default' in info ? `\`${formatValue(info, info.default)}\`` : '';
+    const aliases = [
+      ...(info.fromFile ? [`\`${info.key}_FILE\``] : []),
+      ...(info.fallbackKeys ?? []).map((key) => `\`${key}\``),
+      ...(info.deprecatedKeys ?? []).map((key) => `\`${key}\` (deprecated)`),
+    ];
+
+    return [
+      `\`${info.key}\`` + (aliases.length ? ` (also ${aliases.join(', ')})` : ''),
+      `\`${info.path}\``,
+      type,
+      (info.required ? 'yes' : 'no') + (info.condition ? `, when \`${info.condition}\`` : ''),
+      info.secret ? 'yes' : 'no',
+      defaultValue,
+      info.description ?? '',
+    ].map(escapeCell);
+  });
+
+  return (
+    [
+      '| Variable | Path | Type | Required | Secret | Default | Description |',
+      '| --- | --- | --- | --- | --- | --- | --- |',
+      ...rows.map((row) => `| ${row.join(' | ')} |`),
+    ].join('\n') + '\n'
+  );
+};
+
+/**
+ * Generates a JSON manifest of all environment variables of a configuration schema.
+ *
+ * @param schema - A schema created with `define()`
+ * @returns JSON array of `EnvVarInfo` entries
+ */
+export const formatEnvJson = (schema: ZodConfSchema<any>): string => {
+  // bigint defaults are written as strings, which is also how they are set in the env
+  return JSON.stringify(describeEnv(schema), bigintReplacer, 2) + '\n';
+};
+
+/**
+ * Generates the `--help` text of a command line reading configuration with an `{ argv }` loader.
+ * Lists the flag of every field with its type, env var and default.
+ *
+ * @param schema - A schema created with `define()`
+ * @param options - `usage` line printed first, e.g. `Usage: server [options]`
+ * @returns Help text
+ *
+ * @example
+ * ```typescript
+ * const argv = process.argv.slice(2);
+ *
+ * if (argv.includes('--help')) {
+ *   process.stdout.write(formatArgvHelp(schema, { usage: 'Usage: server [options]' }));
+ *   process.exit(0);
+ * }
+ *
+ * const config = schema.load({ env: process.env }, { argv });
+ * // Options:
+ * //   --port <number>          HTTP port (env: PORT, default: 3000)
+ * //   --[no-]debug             (env: DEBUG, default: false)
+ * //   --database.url <string>  (required, secret, env: DATABASE_URL)
+ * ```
+ */
+export const formatArgvHelp = (schema: ZodConfSchema<any>, options: { usage?: string } = {}): string => {
+  const rows = describeFields(schema).map((info) => {
+    const flag = toFlagName(info.path.split('.'));
+    const value = info.values ? info.values.map((value) => String(value)).join('|') : info.type;
+    const details = [
+      ...(info.required ? [`required${info.condition ? ` when ${info.condition}` : ''}`] : []),
+      ...(info.secret ? ['secret'] : []),
+      ...(info.key ? [`env: ${info.key}`] : []),
+      // empty defaults, e.g. of arrays, say nothing on a command line
+      ...('default' in info && formatValue(info, info.default) ? [`default: ${formatValue(info, info.default)}`] : []),
+      ...(info.type === 'array' ? ['repeatable'] : []),
+    ];
+
+    return [
+      info.type === 'boolean' ? `--[no-]${flag}` : `--${flag} <${value}>`,
+      [info.description, details.length ? `(${details.join(', ')})` : ''].filter(Boolean).join(' '),
+    ] as const;
+  });
+  const width = Math.max(0, ...rows.map(([flag]) => flag.length));
+
+  return (
+    [
+      ...(options.usage ? [options.usage, ''] : []),
+      'Options:',
+      ...rows.map(([flag, text]) => `  ${flag.padEnd(width)}  ${text}`.trimEnd()),
+    ].join('\n') + '\n'
+  );
+};
@@ -1,6 +1,37 @@
-import { strictEqual, deepStrictEqual } from 'node:assert';
-import { test } from 'node:test';
-import zc from './index.js';
+import { strictEqual, deepStrictEqual, rejects, throws } from 'node:assert';
+import { spawnSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test, type TestContext } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { types } from 'node:util';
+import { z, ZodError } from 'zod';
+import zc, {
+  type ConfigWarning,
+  type FileSystem,
+  describeEnv,
+  formatArgvHelp,
+  formatEnvExample,
+  formatEnvJson,
+  formatEnvMarkdown,
+  fromDotenvFile,
+  fromJsonFile,
+  fromTomlFile,
+  fromYamlFile,
+  formatConfigError,
+  parseDotenv,
+  ZodConfError,
+} from './index.js';
+
+// temporary directory, removed once the test is done
+const createTempDir = (t: TestContext): string => {
+  const dir = mkdtempSync(join(tmpdir(), 'zod-conf-'));
+
+  t.after(() => rmSync(dir, { recursive: true, force: true }));
+
+  return dir;
+};
 
 test('zod-conf configuration parsing', async (t) => {
   await t.test('parses string environment variables', () => {
@@ -114,6 +145,115 @@ test('zod-conf configuration parsing', async (t) => {
     strictEqual(config.statusStr, 'pending');
   });
 
+  await t.test('parses array environment variables', () => {
+    const schema = zc.define({
+      origins: zc.env('ALLOWED_ORIGINS').array(z.string()),
+      ports: zc.env('PORTS').array(z.number(), { separator: ';' }),
+      flags: zc.env('FLAGS').array(z.boolean()),
+      levels: zc.env('LEVELS').array(z.enum(['info', 'debug'])),
+    });
+
+    const config = schema.load({
+      env: {
+        ALLOWED_ORIGINS: 'https://a.com, https://b.com,',
+        PORTS: '80;443',
+        FLAGS: 'true,false',
+        LEVELS: 'debug,info',
+      },
+    });
+
+    deepStrictEqual(config, {
+      origins: ['https://a.com', 'https://b.com'],
+      ports: [80, 443],
+      flags: [true, false],
+      levels: ['debug', 'info'],
+    });
+  });
+
+  await t.test('reports array item issues at the item path', () => {
+    const schema = zc.define({
+      ports: zc.env('PORTS').array(z.number().int()),
+    });
+
+    const result = schema.safeLoad({ env: { PORTS: '80,http,443' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map((issue) => issue.path),
+        [['ports', 1]],
+      );
+    }
+  });
+
+  await t.test('handles defaults and overrides for array environment variables', () => {
+    const schema = zc.define({
+      origins: zc.env('ORIGINS').array(z.string()).default(['localhost']),
+    });
+
+    deepStrictEqual(schema.load({ env: { ORIGINS: '' } }).origins, ['localhost']);
+    deepStrictEqual(schema.load({ values: { origins: ['a.com'] } }, { env: { ORIGINS: 'b.com,c.com' } }).origins, [
+      'b.com',
+      'c.com',
+    ]);
+  });
+
+  await t.test('parses json environment variables', () => {
+    const schema = zc.define({
+      routes: zc.env('ROUTES').json(z.array(z.object({ path: z.string(), target: z.string() }))),
+      flags: zc.env('FLAGS').json(z.object({ beta: z.boolean() })),
+    });
+
+    const config = schema.load(
+      { values: { flags: { beta: false } } },
+      { env: { ROUTES: '[{"path":"/","target":"web"}]', FLAGS: '{"beta":true}' } },
+    );
+
+    deepStrictEqual(config, {
+      routes: [{ path: '/', target: 'web' }],
+      flags: { beta: true },
+    });
+  });
+
+  await t.test('reports malformed json environment variables at the field path', () => {
+    const schema = zc.define({
+      routes: zc.env('ROUTES').json(z.array(z.string())),
+      port: zc.env('PORT').number(),
+    });
+
+    const result = schema.safeLoad({ env: { ROUTES: '[oops', PORT: 'x' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map((issue) => issue.path),
+        [['routes'], ['port']],
+      );
+      strictEqual(result.error.issues[0]?.message, 'Invalid JSON in ROUTES');
+    }
+
+    // the input is never quoted, only the position where parsing failed
+    const positioned = schema.safeLoad({ env: { ROUTES: '[1 2]', PORT: '1' } });
+
+    strictEqual(positioned.success, false);
+    if (!positioned.success) {
+      strictEqual(positioned.error.issues[0]?.message, 'Invalid JSON in ROUTES at position 3');
+    }
+  });
+
+  await t.test('validates json environment variables against the inner schema', () => {
+    const schema = zc.define({
+      routes: zc.env('ROUTES').json(z.array(z.object({ path: z.string() }))),
+    });
+
+    const result = schema.safeLoad({ env: { ROUTES: '[{"path":1}]' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(result.error.issues[0]?.path, ['routes', 0, 'path']);
+    }
+  });
+
   await t.test('handles default values', () => {
     const schema = zc.define({
       host: zc.env('HOST').string().default('localhost'),
@@ -635,4 +775,1787 @@ test('zod-conf configuration parsing', async (t) => {
       strictEqual(result.data.host, 'from-env');
     }
   });
+
+  await t.test('loadWithSources reports the winning loader of each value', () => {
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      port: zc.env('PORT').number().default(3000),
+      database: zc.object({
+        url: zc.env('DATABASE_URL').string(),
+        poolSize: zc.env('DB_POOL_SIZE').number().optional(),
+      }),
+    });
+
+    const { data, sources } = schema.loadWithSources(
+      { values: { host: 'yaml-host', database: { url: 'postgres://yaml' } }, name: 'config.yml' },
+      { env: { DATABASE_URL: 'postgres://env' } },
+    );
+
+    deepStrictEqual(data, { host: 'yaml-host', port: 3000, database: { url: 'postgres://env' } });
+    deepStrictEqual(sources, {
+      host: { type: 'values', loader: 0, name: 'config.yml' },
+      port: { type: 'default' },
+      'database.url': { type: 'env', loader: 1, key: 'DATABASE_URL' },
+    });
+  });
+
+  await t.test('loadWithSources throws error for invalid config', () => {
+    const schema = zc.define({
+      port: zc.env('PORT').number(),
+    });
+
+    let error: any;
+    try {
+      schema.loadWithSources({ env: { PORT: 'x' } });
+    } catch (e) {
+      error = e;
+    }
+
+    strictEqual(error?.issues?.length, 1);
+  });
+
+  await t.test('redact masks secret fields', () => {
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      apiKey: zc.env('API_KEY').secret().string().optional(),
+      database: zc.object({
+        url: zc.env('DATABASE_URL').secret().string(),
+        poolSize: zc.env('DB_POOL_SIZE').number().default(10),
+      }),
+    });
+
+    const config = schema.load({ env: { HOST: 'localhost', DATABASE_URL: 'postgres://user:pass@db/app' } });
+
+    strictEqual(config.database.url, 'postgres://user:pass@db/app');
+    deepStrictEqual(schema.redact(config), {
+      host: 'localhost',
+      database: { url: '[REDACTED]', poolSize: 10 },
+    });
+    strictEqual(schema.toSafeJSON(config), '{"host":"localhost","database":{"url":"[REDACTED]","poolSize":10}}');
+  });
+
+  await t.test('safeLoad never echoes secret values in issues', () => {
+    const schema = zc.define({
+      apiKey: zc
+        .env('API_KEY')
+        .secret()
+        .string()
+        .refine((value) => value.startsWith('sk-'), 'Invalid API key'),
+      token: zc
+        .env('TOKEN')
+        .secret()
+        .json(z.object({ id: z.string() })),
+    });
+
+    const result = schema.safeLoad({ env: { API_KEY: 'hunter2', TOKEN: '{hunter3' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      const output = JSON.stringify(result.error.issues);
+
+      strictEqual(output.includes('hunter'), false);
+      deepStrictEqual(
+        result.error.issues.map((issue) => issue.message),
+        ['Invalid JSON in TOKEN at position 1', 'Invalid API key'],
+      );
+    }
+  });
+
+  await t.test('leaves secret values out of the messages of env types', () => {
+    const schema = zc.define({
+      database: zc.env('DATABASE_URL').secret().url(),
+      timeout: zc.env('TIMEOUT').secret().duration(),
+      callback: zc.env('CALLBACK_URL').url(),
+    });
+
+    const result = schema.safeLoad({
+      env: { DATABASE_URL: 'postgres://user:p@ss w0rd@host:notaport/db', TIMEOUT: 'p@ss', CALLBACK_URL: 'not a url' },
+    });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      strictEqual(result.error.message.includes('p@ss'), false);
+      strictEqual(formatConfigError(result.error).includes('p@ss'), false);
+      deepStrictEqual(
+        result.error.issues.map(({ message }) => message),
+        [
+          'Invalid URL',
+          'Invalid duration, expected a number with a unit: ms, s, m, h, d or w',
+          'Invalid URL "not a url"',
+        ],
+      );
+    }
+  });
+
+  await t.test('leaves messages intact when a secret value appears in them', () => {
+    const schema = zc.define({
+      pin: zc.env('PIN').secret().string().min(4),
+    });
+
+    const result = schema.safeLoad({ env: { PIN: 'e' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      strictEqual(result.error.issues[0]?.message, 'Too small: expected string to have >=4 characters');
+      strictEqual('input' in (result.error.issues[0] ?? {}), false);
+    }
+  });
+
+  await t.test('describeEnv lists env vars of nested schemas', () => {
+    const schema = zc.define({
+      port: zc.env('PORT').number().default(3000).describe('HTTP port'),
+      logLevel: zc.env('LOG_LEVEL').enum(['debug', 'info']).optional(),
+      database: zc.object({
+        url: zc.env('DATABASE_URL').secret().string().default('postgres://localhost'),
+        hosts: zc.env('DB_HOSTS').array(z.string(), { separator: ';' }).default(['a', 'b']),
+      }),
+      // refinements are not run, async ones would throw
+      host: zc
+        .env('HOST')
+        .string()
+        .optional()
+        .refine(async (host) => host !== 'unreachable'),
+      plain: z.string().default('not bound'),
+    });
+
+    deepStrictEqual(describeEnv(schema), [
+      {
+        key: 'PORT',
+        path: 'port',
+        type: 'number',
+        required: false,
+        secret: false,
+        default: 3000,
+        description: 'HTTP port',
+      },
+      { key: 'LOG_LEVEL', path: 'logLevel', type: 'enum', required: false, secret: false, values: ['debug', 'info'] },
+      { key: 'DATABASE_URL', path: 'database.url', type: 'string', required: false, secret: true },
+      {
+        key: 'DB_HOSTS',
+        path: 'database.hosts',
+        type: 'array',
+        required: false,
+        secret: false,
+        default: ['a', 'b'],
+        separator: ';',
+      },
+      { key: 'HOST', path: 'host', type: 'string', required: false, secret: false },
+    ]);
+  });
+
+  await t.test('formats env documentation', () => {
+    const schema = zc.define({
+      port: zc.env('PORT').number().default(3000).describe('HTTP port'),
+      logLevel: zc.env('LOG_LEVEL').enum(['debug', 'info']).optional(),
+      apiKey: zc.env('API_KEY').secret().string(),
+    });
+
+    strictEqual(
+      formatEnvExample(schema),
+      [
+        '# HTTP port',
+        '# port: number, optional, default: 3000',
+        'PORT=3000',
+        '',
+        '# logLevel: enum (debug|info), optional',
+        '# LOG_LEVEL=',
+        '',
+        '# apiKey: string, required, secret',
+        'API_KEY=',
+        '',
+      ].join('\n'),
+    );
+
+    strictEqual(
+      formatEnvMarkdown(schema),
+      [
+        '| Variable | Path | Type | Required | Secret | Default | Description |',
+        '| --- | --- | --- | --- | --- | --- | --- |',
+        '| `PORT` | `port` | number | no | no | `3000` | HTTP port |',
+        '| `LOG_LEVEL` | `logLevel` | enum: `debug`, `info` | no | no |  |  |',
+        '| `API_KEY` | `apiKey` | string | yes | yes |  |  |',
+        '',
+      ].join('\n'),
+    );
+
+    deepStrictEqual(
+      JSON.parse(formatEnvJson(schema)).map((info: any) => info.key),
+      ['PORT', 'LOG_LEVEL', 'API_KEY'],
+    );
+  });
+
+  await t.test('cli generates env documentation from a schema module', (t) => {
+    const dir = createTempDir(t);
+    const module = join(dir, 'config.mts');
+    const cli = fileURLToPath(new URL('./cli.ts', import.meta.url));
+    const index = new URL('./index.ts', import.meta.url).href;
+
+    writeFileSync(
+      module,
+      [
+        `import zc from '${index}';`,
+        '',
+        "export const schema = zc.define({ port: zc.env('PORT').number().default(3000) });",
+        'export default 42;',
+        '',
+      ].join('\n'),
+    );
+
+    const run = (...args: string[]) =>
+      spawnSync(process.execPath, ['--import', 'tsx', cli, ...args], { encoding: 'utf8', timeout: 30_000 });
+
+    const generated = run('env-example', module, '--export', 'schema');
+
+    strictEqual(generated.stderr, '');
+    strictEqual(generated.stdout, ['# port: number, optional, default: 3000', 'PORT=3000', ''].join('\n'));
+
+    const invalid = run('env-example', module);
+
+    strictEqual(invalid.status, 1);
+    strictEqual(invalid.stderr, `Export "default" of ${module} is not a schema created with define()\n`);
+  });
+
+  await t.test('derives env keys from field paths with autoEnv', () => {
+    const schema = zc.define(
+      {
+        port: z.number().default(3000),
+        logLevel: z.enum(['info', 'debug']).default('info'),
+        origins: z.array(z.string()).default([]),
+        database: zc.object({
+          url: zc.env('DATABASE_URL').string(),
+          pool: zc.object({
+            min: z.number().default(1),
+            max: z.number().default(10),
+          }),
+        }),
+      },
+      { envPrefix: 'APP_', autoEnv: true },
+    );
+
+    const config = schema.load({
+      env: {
+        APP_PORT: '8080',
+        APP_LOG_LEVEL: 'debug',
+        APP_ORIGINS: 'a.com,b.com',
+        DATABASE_URL: 'postgres://localhost/app',
+        APP_DATABASE_POOL_MIN: '2',
+      },
+    });
+
+    deepStrictEqual(config, {
+      port: 8080,
+      logLevel: 'debug',
+      origins: ['a.com', 'b.com'],
+      database: { url: 'postgres://localhost/app', pool: { min: 2, max: 10 } },
+    });
+  });
+
+  await t.test('does not derive env keys without autoEnv', () => {
+    const schema = zc.define({ port: z.number().default(3000) }, { envPrefix: 'APP_' });
+
+    strictEqual(schema.load({ env: { APP_PORT: '8080', PORT: '8080' } }).port, 3000);
+  });
+
+  await t.test('mounts a reusable shape under different object prefixes', () => {
+    const database = {
+      url: zc.env('URL').string(),
+      poolSize: z.number().default(5),
+    };
+
+    const schema = zc.define(
+      {
+        primary: zc.object(database, { prefix: 'DB_' }),
+        replica: zc.object(database, { prefix: 'REPLICA_DB_' }),
+      },
+      { envPrefix: 'APP_', autoEnv: true },
+    );
+
+    const config = schema.load({
+      env: { DB_URL: 'postgres://primary', REPLICA_DB_URL: 'postgres://replica', APP_REPLICA_DB_POOL_SIZE: '2' },
+    });
+
+    deepStrictEqual(config, {
+      primary: { url: 'postgres://primary', poolSize: 5 },
+      replica: { url: 'postgres://replica', poolSize: 2 },
+    });
+    deepStrictEqual(
+      describeEnv(schema).map((info) => info.key),
+      ['DB_URL', 'APP_DB_POOL_SIZE', 'REPLICA_DB_URL', 'APP_REPLICA_DB_POOL_SIZE'],
+    );
+  });
+
+  await t.test('reads fallback env keys in priority order', () => {
+    const schema = zc.define({
+      databaseUrl: zc.env(['DATABASE_URL', 'DB_URL']).string(),
+    });
+
+    strictEqual(schema.load({ env: { DB_URL: 'from-fallback' } }).databaseUrl, 'from-fallback');
+    strictEqual(
+      schema.load({ env: { DB_URL: 'from-fallback', DATABASE_URL: 'from-primary' } }).databaseUrl,
+      'from-primary',
+    );
+  });
+
+  await t.test('reports deprecated env aliases through onWarning', () => {
+    const schema = zc.define({
+      database: zc.object({
+        url: zc.env('DATABASE_URL').deprecatedAlias('DB_URL').string(),
+      }),
+    });
+
+    const warnings: ConfigWarning[] = [];
+    const { data, sources } = schema.loadWithSources(
+      { env: { DB_URL: 'postgres://old' } },
+      { onWarning: (warning) => warnings.push(warning) },
+    );
+
+    strictEqual(data.database.url, 'postgres://old');
+    deepStrictEqual(sources['database.url'], { type: 'env', loader: 0, key: 'DB_URL' });
+    deepStrictEqual(warnings, [
+      {
+        code: 'deprecated_env',
+        path: 'database.url',
+        key: 'DB_URL',
+        replacement: 'DATABASE_URL',
+        message: 'Environment variable DB_URL is deprecated, use DATABASE_URL instead',
+      },
+    ]);
+
+    schema.load(
+      { env: { DATABASE_URL: 'postgres://new', DB_URL: 'postgres://old' } },
+      { onWarning: (warning) => warnings.push(warning) },
+    );
+    strictEqual(warnings.length, 1);
+  });
+
+  await t.test('reads values from files named by _FILE variables', (t) => {
+    const dir = createTempDir(t);
+    const passwordFile = join(dir, 'db_password');
+    const portFile = join(dir, 'port');
+
+    writeFileSync(passwordFile, 's3cret\r\n\n');
+    writeFileSync(portFile, '5432');
+
+    const schema = zc.define({
+      password: zc.env('DB_PASSWORD').secret().fromFile().string(),
+      port: zc.env('DB_PORT').fromFile().number(),
+      user: zc.env('DB_USER').fromFile().string().default('postgres'),
+    });
+
+    const { data, sources } = schema.loadWithSources({
+      env: { DB_PASSWORD_FILE: passwordFile, DB_PORT_FILE: portFile },
+    });
+
+    deepStrictEqual(data, { password: 's3cret', port: 5432, user: 'postgres' });
+    deepStrictEqual(sources.password, { type: 'env', loader: 0, key: 'DB_PASSWORD_FILE' });
+
+    // the variable itself wins over the file
+    strictEqual(
+      schema.load({ env: { DB_PASSWORD: 'direct', DB_PASSWORD_FILE: passwordFile, DB_PORT: '1' } }).password,
+      'direct',
+    );
+  });
+
+  await t.test('reports unreadable _FILE variables at the field path', () => {
+    const schema = zc.define({
+      password: zc.env('DB_PASSWORD').fromFile().string(),
+      plain: zc.env('PLAIN').string().optional(),
+    });
+
+    const missing = join(tmpdir(), 'zod-conf-missing-file');
+    const result = schema.safeLoad({ env: { DB_PASSWORD_FILE: missing, PLAIN_FILE: missing } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      strictEqual(result.error.issues.length, 1);
+      deepStrictEqual(result.error.issues[0]?.path, ['password']);
+      strictEqual(
+        result.error.issues[0]?.message.startsWith(`Cannot read file ${missing} from DB_PASSWORD_FILE`),
+        true,
+      );
+    }
+  });
+
+  await t.test('loads values from json, yaml and toml files', (t) => {
+    const dir = createTempDir(t);
+
+    writeFileSync(join(dir, 'config.json'), '{ "host": "json-host", "server": { "port": 1 } }');
+    writeFileSync(join(dir, 'config.yml'), 'server:\n  port: 2\n');
+    writeFileSync(join(dir, 'config.toml'), '[server]\ndebug = true\n');
+
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      server: zc.object({
+        port: zc.env('PORT').number(),
+        debug: zc.env('DEBUG').boolean().default(false),
+      }),
+    });
+
+    const config = schema.load(
+      fromJsonFile(join(dir, 'config.json')),
+      fromYamlFile(join(dir, 'config.yml')),
+      fromTomlFile(join(dir, 'config.toml')),
+      fromYamlFile(join(dir, 'config.local.yml'), { optional: true }),
+    );
+
+    deepStrictEqual(config, { host: 'json-host', server: { port: 2, debug: true } });
+    throws(() => fromJsonFile(join(dir, 'missing.json')), /Cannot read config file .*missing\.json/);
+    throws(() => fromYamlFile(join(dir, 'config.toml')), /Cannot parse config file .*config\.toml/);
+  });
+
+  await t.test('loads env from .env files', (t) => {
+    const dir = createTempDir(t);
+    const file = join(dir, '.env');
+
+    writeFileSync(file, 'PORT=8080\nHOST=from-file\n');
+
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      port: zc.env('PORT').number(),
+    });
+
+    const { data, sources } = schema.loadWithSources(fromDotenvFile(file), { env: { HOST: 'from-env' } });
+
+    deepStrictEqual(data, { host: 'from-env', port: 8080 });
+    deepStrictEqual(sources.port, { type: 'env', loader: 0, name: file, key: 'PORT' });
+    deepStrictEqual(fromDotenvFile(join(dir, '.env.local'), { optional: true }).env, {});
+  });
+
+  await t.test('mentions the file in issues caused by its values', (t) => {
+    const dir = createTempDir(t);
+    const file = join(dir, 'config.json');
+
+    writeFileSync(file, '{ "server": { "port": "http" } }');
+
+    const schema = zc.define({
+      server: zc.object({ port: zc.env('PORT').number() }),
+    });
+
+    const result = schema.safeLoad(fromJsonFile(file));
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      strictEqual(result.error.issues[0]?.message.endsWith(`(in ${file})`), true);
+    }
+  });
+
+  await t.test('parses .env syntax', () => {
+    const content = [
+      '# comment',
+      '',
+      'PLAIN=value # trailing comment',
+      'export EXPORTED=yes',
+      "SINGLE='literal \\n $HOME'",
+      'DOUBLE="line\\nbreak \\"quoted\\""',
+      'MULTI="first',
+      'second"',
+      'EMPTY=',
+      'SPACED = padded ',
+    ].join('\n');
+
+    deepStrictEqual(parseDotenv(content), {
+      PLAIN: 'value',
+      EXPORTED: 'yes',
+      SINGLE: 'literal \\n $HOME',
+      DOUBLE: 'line\nbreak "quoted"',
+      MULTI: 'first\nsecond',
+      EMPTY: '',
+      SPACED: 'padded',
+    });
+
+    throws(() => parseDotenv('NOT AN ASSIGNMENT'), /Invalid line 1/);
+    throws(() => parseDotenv('A="unterminated'), /Invalid line 1: missing closing "/);
+  });
+
+  await t.test('loadProfile layers base, profile and local files and env', (t) => {
+    const dir = createTempDir(t);
+
+    writeFileSync(join(dir, 'config.json'), '{ "host": "base", "port": 1, "name": "base" }');
+    writeFileSync(join(dir, 'config.production.yml'), 'host: production\nport: 2\n');
+    writeFileSync(join(dir, 'config.local.toml'), 'port = 3\n');
+    writeFileSync(join(dir, 'config.development.json'), '{ "host": "development" }');
+
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      port: zc.env('PORT').number(),
+      name: zc.env('NAME').string(),
+    });
+
+    deepStrictEqual(schema.loadProfile('production', { dir, env: { NAME: 'from-env' } }), {
+      host: 'production',
+      port: 3,
+      name: 'from-env',
+    });
+    deepStrictEqual(schema.loadProfile('development', { dir, env: {} }), {
+      host: 'development',
+      port: 3,
+      name: 'base',
+    });
+  });
+
+  await t.test('applies profile defaults of the active profile', (t) => {
+    const schema = zc.define({
+      debug: zc.profileDefaults(zc.env('DEBUG').boolean().default(false), { development: true, test: true }),
+      // fields without an env binding take profile defaults too
+      logLevel: zc.profileDefaults(z.enum(['debug', 'info']).default('info'), { development: 'debug' }),
+    });
+
+    const dir = createTempDir(t);
+
+    deepStrictEqual(schema.loadProfile('development', { dir, env: {} }), { debug: true, logLevel: 'debug' });
+    deepStrictEqual(schema.loadProfile('production', { dir, env: {} }), { debug: false, logLevel: 'info' });
+    strictEqual(schema.loadProfile('development', { dir, env: { DEBUG: 'false' } }).debug, false);
+
+    const { sources } = schema.loadWithSources({ env: {} }, { profile: 'test' });
+
+    deepStrictEqual(sources.debug, { type: 'profile', profile: 'test' });
+
+    // @ts-expect-error profile defaults are inputs of the field
+    zc.profileDefaults(z.boolean(), { development: 'yes' });
+  });
+
+  await t.test('rejects profile names that could reach outside the config directory', (t) => {
+    const schema = zc.define({ port: zc.env('PORT').number().default(3000) });
+
+    throws(() => schema.loadProfile('../secrets', { env: {} }), /Invalid profile name "\.\.\/secrets"/);
+    throws(() => schema.loadProfile('prod/local', { env: {} }), /Invalid profile name/);
+    strictEqual(schema.loadProfile('staging-2', { dir: createTempDir(t), env: {} }).port, 3000);
+  });
+
+  await t.test('interpolates env references in values', () => {
+    const schema = zc.define({
+      url: zc.env('DATABASE_URL').string(),
+      hosts: zc.env('HOSTS').array(zc.string()),
+      literal: zc.env('LITERAL').string(),
+    });
+
+    const config = schema.load(
+      {
+        values: {
+          url: 'postgres://${DB_HOST}:${DB_PORT:-5432}/app',
+          hosts: ['${DB_HOST}', '${REPLICA_HOST:-${DB_HOST}}'],
+          literal: 'cost: $${PRICE}',
+        },
+      },
+      { env: { DB_HOST: 'db' } },
+      { interpolate: true },
+    );
+
+    deepStrictEqual(config, {
+      url: 'postgres://db:5432/app',
+      hosts: ['db', 'db'],
+      literal: 'cost: ${PRICE}',
+    });
+  });
+
+  await t.test('reports unresolved and circular references at the field path', () => {
+    const schema = zc.define({
+      server: zc.object({ url: zc.env('URL').string() }),
+      name: zc.env('NAME').string(),
+    });
+
+    const result = schema.safeLoad(
+      { values: { server: { url: 'http://${HOST}' } } },
+      { env: { NAME: '${A}', A: '${B}', B: '${A}' } },
+      { interpolate: { env: true } },
+    );
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ path, message }) => ({ path, message })),
+        [
+          { path: ['server', 'url'], message: 'Unresolved reference ${HOST}' },
+          { path: ['name'], message: 'Circular reference A -> B -> A' },
+        ],
+      );
+    }
+  });
+
+  await t.test('interpolates env values only when enabled', () => {
+    const schema = zc.define({
+      url: zc.env('URL').string(),
+    });
+
+    const env = { URL: 'http://${HOST}', HOST: 'example.com' };
+
+    strictEqual(schema.load({ env }, { interpolate: true }).url, 'http://${HOST}');
+    strictEqual(schema.load({ env }, { interpolate: { env: true } }).url, 'http://example.com');
+    strictEqual(schema.load({ values: { url: '${HOST}' } }).url, '${HOST}');
+  });
+
+  await t.test('watch emits only changed configurations and keeps the last good one', () => {
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      pool: zc.object({ size: zc.env('POOL_SIZE').number() }),
+    });
+
+    let env: Record<string, string> = { HOST: 'a', POOL_SIZE: '1' };
+    const changes: string[][] = [];
+    const errors: Error[] = [];
+
+    const watcher = schema.watch([() => ({ env })], (_config, { changedPaths }) => changes.push(changedPaths), {
+      onError: (error) => errors.push(error),
+    });
+
+    deepStrictEqual(watcher.config, { host: 'a', pool: { size: 1 } });
+
+    env = { HOST: 'a', POOL_SIZE: '1' };
+    strictEqual(watcher.reload(), false);
+
+    env = { HOST: 'a', POOL_SIZE: '2' };
+    strictEqual(watcher.reload(), true);
+    deepStrictEqual(watcher.config, { host: 'a', pool: { size: 2 } });
+
+    env = { HOST: 'b', POOL_SIZE: 'many' };
+    strictEqual(watcher.reload(), false);
+    deepStrictEqual(watcher.config, { host: 'a', pool: { size: 2 } });
+    strictEqual(errors.length, 1);
+    deepStrictEqual(changes, [['pool.size']]);
+
+    watcher.close();
+
+    throws(() => schema.watch([() => ({ env: {} })], () => {}), /expected string/);
+  });
+
+  await t.test('watch reloads when a watched file changes', () => {
+    const files: Record<string, string> = { 'config.json': '{ "port": 1 }' };
+    const listeners = new Map<string, () => void>();
+    const fs: FileSystem = {
+      readFile: (path) => files[path] ?? '',
+      loadConfigFile: () => ({ values: {} }),
+      watchFile: (path, _options, listener) => {
+        listeners.set(path, listener);
+
+        return () => listeners.delete(path);
+      },
+    };
+
+    const schema = zc.define({ port: zc.env('PORT').number() }, { fs });
+    const ports: number[] = [];
+    const errors: Error[] = [];
+
+    const watcher = schema.watch(
+      [() => ({ values: JSON.parse(files['config.json'] ?? '{}'), file: 'config.json' })],
+      (config) => {
+        ports.push(config.port);
+
+        if (config.port === 3) {
+          throw new Error('onChange failed');
+        }
+      },
+      { onError: (error) => errors.push(error) },
+    );
+
+    deepStrictEqual([...listeners.keys()], ['config.json']);
+
+    files['config.json'] = '{ "port": 2 }';
+    listeners.get('config.json')?.();
+
+    // errors thrown by onChange must not escape the file listener
+    files['config.json'] = '{ "port": 3 }';
+    listeners.get('config.json')?.();
+
+    deepStrictEqual(ports, [2, 3]);
+    deepStrictEqual(
+      errors.map((error) => error.message),
+      ['onChange failed'],
+    );
+    strictEqual(watcher.config.port, 3);
+
+    watcher.close();
+    strictEqual(listeners.size, 0);
+  });
+
+  await t.test('loadAsync resolves loaders concurrently in precedence order', async () => {
+    const schema = zc.define({
+      host: zc.env('HOST').string(),
+      port: zc.env('PORT').number(),
+      token: zc.env('TOKEN').string(),
+    });
+
+    const delay = <T>(ms: number, value: T) => new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+    const started: string[] = [];
+
+    const config = await schema.loadAsync(
+      async () => {
+        started.push('file');
+        return delay(20, { values: { host: 'file', port: 1, token: 'file' } });
+      },
+      () => {
+        started.push('secrets');
+        return delay(0, { env: { TOKEN: 'secret' } });
+      },
+      Promise.resolve({ values: { port: 2 } }),
+      { env: { HOST: 'env' } },
+    );
+
+    deepStrictEqual(started, ['file', 'secrets']);
+    deepStrictEqual(config, { host: 'env', port: 2, token: 'secret' });
+
+    const result = await schema.safeLoadAsync(async () => ({ env: { HOST: 'env', PORT: 'x' } }));
+
+    strictEqual(result.success, false);
+    await rejects(() => schema.loadAsync(() => Promise.reject(new Error('vault unavailable'))), /vault unavailable/);
+  });
+
+  await t.test('loadAsync runs async refinements', async () => {
+    const schema = zc.define({
+      host: zc
+        .env('HOST')
+        .string()
+        .refine(async (host) => host !== 'unreachable', 'Host is not reachable'),
+    });
+
+    strictEqual((await schema.loadAsync({ env: { HOST: 'db' } })).host, 'db');
+
+    const result = await schema.safeLoadAsync({ env: { HOST: 'unreachable' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(result.error.issues[0]?.message, 'Host is not reachable');
+    }
+  });
+
+  await t.test('strict mode reports unknown keys and env vars with suggestions', () => {
+    const schema = zc.define(
+      {
+        port: zc.env('APP_PORT').number().default(3000),
+        database: zc.object({ url: zc.env('APP_DATABASE_URL').fromFile().string().optional() }),
+      },
+      { envPrefix: 'APP_' },
+    );
+
+    const loaders = [
+      { values: { prot: 1, database: { ulr: 'x', url: 'postgres://' } }, file: 'config.json' },
+      { env: { APP_PROT: '8080', APP_DATABASE_URL_FILE: '/dev/null', APP_X: '1', HOME: '/root' } },
+    ] as const;
+
+    strictEqual(schema.safeLoad(...loaders).success, true);
+
+    const result = schema.safeLoad(...loaders, { strict: true });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ code, path, message }) => ({ code, path, message })),
+        [
+          {
+            code: 'unrecognized_keys',
+            path: ['database'],
+            message: 'Unrecognized key "ulr", did you mean "url"? (in config.json)',
+          },
+          {
+            code: 'unrecognized_keys',
+            path: [],
+            message: 'Unrecognized key "prot", did you mean "port"? (in config.json)',
+          },
+          {
+            code: 'unrecognized_keys',
+            path: [],
+            message: 'Unrecognized environment variable "APP_PROT", did you mean "APP_PORT"?',
+          },
+          { code: 'unrecognized_keys', path: [], message: 'Unrecognized environment variable "APP_X"' },
+        ],
+      );
+    }
+
+    const custom = schema.safeLoad({ env: { SVC_PORT: '1', APP_PROT: '1' } }, { strict: { envPrefix: ['SVC_'] } });
+
+    strictEqual(custom.success, false);
+    if (!custom.success) {
+      deepStrictEqual(
+        custom.error.issues.map(({ message }) => message),
+        ['Unrecognized environment variable "SVC_PORT"'],
+      );
+    }
+  });
+
+  await t.test('load errors name env vars, sources and values', () => {
+    const schema = zc.define({
+      database: zc.object({
+        pool: zc.object({ max: zc.env('DB_POOL_MAX').number() }),
+        password: zc.env('DB_PASSWORD').secret().string().min(12),
+      }),
+      logLevel: zc.env('LOG_LEVEL').enum(['debug', 'info']),
+      name: zc.env('NAME').string(),
+    });
+
+    const result = schema.safeLoad(
+      { values: { logLevel: 'verbose' }, name: 'config.yml', file: 'config.yml' },
+      { env: { DB_POOL_MAX: 'ten', DB_PASSWORD: 'hunter2' }, name: 'env' },
+    );
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      const error = result.error;
+
+      strictEqual(error instanceof ZodConfError, true);
+      strictEqual(error instanceof ZodError, true);
+      strictEqual(error instanceof Error, true);
+      strictEqual(typeof error.stack, 'string');
+      strictEqual(new ZodError([]) instanceof ZodConfError, false);
+      strictEqual(new Error('other') instanceof ZodConfError, false);
+      strictEqual(error.name, 'ZodConfError');
+
+      if (error instanceof ZodConfError) {
+        deepStrictEqual(
+          error.details.map(({ path, key, source, value, expected }) => ({ path, key, source, value, expected })),
+          [
+            {
+              path: 'database.pool.max',
+              key: 'DB_POOL_MAX',
+              source: { type: 'env', loader: 1, name: 'env', key: 'DB_POOL_MAX' },
+              value: '"ten"',
+              expected: 'number',
+            },
+            {
+              path: 'database.password',
+              key: 'DB_PASSWORD',
+              source: { type: 'env', loader: 1, name: 'env', key: 'DB_PASSWORD' },
+              value: '[REDACTED]',
+              expected: 'string',
+            },
+            {
+              path: 'logLevel',
+              key: 'LOG_LEVEL',
+              source: { type: 'values', loader: 0, name: 'config.yml' },
+              value: '"verbose"',
+              expected: 'debug|info',
+            },
+            { path: 'name', key: 'NAME', source: undefined, value: undefined, expected: 'string' },
+          ],
+        );
+      }
+
+      const report = formatConfigError(error);
+
+      strictEqual(report.includes('hunter2'), false);
+      deepStrictEqual(report.split('\n').slice(0, 4), [
+        'Invalid configuration (4 issues):',
+        '',
+        '  PATH               ENV VAR      SOURCE      VALUE       EXPECTED    PROBLEM',
+        '  database.pool.max  DB_POOL_MAX  env         "ten"       number      Invalid number "ten" in DB_POOL_MAX, expected a decimal number',
+      ]);
+      strictEqual(
+        formatConfigError(new ZodError([{ code: 'custom', path: ['a'], message: 'Broken' }])),
+        'Invalid configuration (1 issue):\n\n  PATH  ENV VAR  SOURCE  VALUE  EXPECTED  PROBLEM\n  a     -        -       -      -         Broken\n',
+      );
+    }
+  });
+
+  await t.test('loads the branch of a discriminated section selected by env', () => {
+    const schema = zc.define({
+      storage: zc.discriminated('STORAGE_KIND', {
+        s3: zc.object({
+          bucket: zc.env('S3_BUCKET').string(),
+          secretKey: zc.env('S3_SECRET_KEY').secret().string(),
+        }),
+        fs: zc.object({ path: zc.env('STORAGE_PATH').string().default('/data') }),
+      }),
+    });
+
+    const s3 = schema.load({
+      env: { STORAGE_KIND: 's3', S3_BUCKET: 'files', S3_SECRET_KEY: 'key', STORAGE_PATH: '/x' },
+    });
+
+    deepStrictEqual(s3.storage, { kind: 's3', bucket: 'files', secretKey: 'key' });
+
+    // the output narrows by the discriminator
+    const location = (storage: ReturnType<typeof schema.load>['storage']) =>
+      storage.kind === 's3' ? storage.bucket : storage.path;
+
+    strictEqual(location(s3.storage), 'files');
+    deepStrictEqual(schema.redact(s3), { storage: { kind: 's3', bucket: 'files', secretKey: '[REDACTED]' } });
+    deepStrictEqual(schema.load({ values: { storage: { kind: 'fs' } } }).storage, { kind: 'fs', path: '/data' });
+    deepStrictEqual(
+      schema.load({ values: { storage: { kind: 's3', bucket: 'a', secretKey: 'b' } } }, { env: { STORAGE_KIND: 'fs' } })
+        .storage,
+      { kind: 'fs', path: '/data' },
+    );
+
+    const missing = schema.safeLoad({ env: { STORAGE_KIND: 's3' } });
+
+    strictEqual(missing.success, false);
+    if (!missing.success) {
+      deepStrictEqual(
+        missing.error.issues.map(({ path }) => path),
+        [
+          ['storage', 'bucket'],
+          ['storage', 'secretKey'],
+        ],
+      );
+    }
+
+    strictEqual(schema.safeLoad({ env: { STORAGE_KIND: 'ftp' } }).success, false);
+    strictEqual(
+      schema.safeLoad({ env: { STORAGE_KIND: 'fs', S3_BUCKET: 'x' } }, { strict: { envPrefix: ['S3_', 'STORAGE_'] } })
+        .success,
+      true,
+    );
+
+    const optional = zc.define({
+      cache: zc.discriminated('CACHE', { memory: zc.object({}) }, { property: 'type' }).optional(),
+    });
+
+    strictEqual(optional.load({ env: {} }).cache, undefined);
+    deepStrictEqual(optional.load({ env: { CACHE: 'memory' } }).cache, { type: 'memory' });
+  });
+
+  await t.test('documents discriminated sections with conditions', () => {
+    const schema = zc.define({
+      storage: zc.discriminated('STORAGE_KIND', {
+        s3: zc.object({ bucket: zc.env('S3_BUCKET').string() }),
+        fs: zc.object({ path: zc.env('STORAGE_PATH').string().default('/data') }),
+      }),
+    });
+
+    deepStrictEqual(describeEnv(schema), [
+      { key: 'STORAGE_KIND', path: 'storage.kind', type: 'enum', required: true, secret: false, values: ['s3', 'fs'] },
+      {
+        key: 'S3_BUCKET',
+        path: 'storage.bucket',
+        type: 'string',
+        required: true,
+        secret: false,
+        condition: 'STORAGE_KIND=s3',
+      },
+      {
+        key: 'STORAGE_PATH',
+        path: 'storage.path',
+        type: 'string',
+        required: false,
+        secret: false,
+        default: '/data',
+        condition: 'STORAGE_KIND=fs',
+      },
+    ]);
+    strictEqual(
+      formatEnvExample(schema).split('\n\n')[1],
+      '# storage.bucket: string, required when STORAGE_KIND=s3\n# S3_BUCKET=',
+    );
+  });
+
+  await t.test('loads record entries from env patterns and values', () => {
+    const schema = zc.define({
+      queues: zc.record(
+        'QUEUE_*_',
+        zc.object({
+          concurrency: zc.env('CONCURRENCY').number().default(1),
+          retry: zc.object({ max: zc.env('RETRY_MAX').number().optional() }),
+          max: zc.env('MAX').number().optional(),
+          token: zc.env('TOKEN').secret().string().optional(),
+        }),
+      ),
+    });
+
+    const config = schema.load(
+      { values: { queues: { emails: { concurrency: 3, max: 10 }, billing: {} } } },
+      {
+        env: {
+          QUEUE_EMAILS_CONCURRENCY: '5',
+          QUEUE_EMAIL_DIGEST_RETRY_MAX: '2',
+          QUEUE_REPORTS_TOKEN: 'secret',
+          QUEUE_UNKNOWN: 'x',
+        },
+      },
+    );
+
+    deepStrictEqual(config.queues, {
+      emails: { concurrency: 5, retry: {}, max: 10 },
+      billing: { concurrency: 1, retry: {} },
+      emailDigest: { concurrency: 1, retry: { max: 2 } },
+      reports: { concurrency: 1, retry: {}, token: 'secret' },
+    });
+    strictEqual(schema.toSafeJSON(config).includes('secret'), false);
+    // without entries the record is not supplied: required ones are reported, optional ones stay unset
+    deepStrictEqual(
+      schema.safeLoad({ env: {} }).error?.issues.map(({ path }) => path),
+      [['queues']],
+    );
+    strictEqual(
+      zc.define({ queues: zc.record('QUEUE_*_', zc.object({})).optional() }).load({ env: {} }).queues,
+      undefined,
+    );
+
+    // env keys apply to the entry of the values with the same segment, in either loader order
+    const named = { values: { queues: { 'email-digest': { concurrency: 3 } } } };
+    const env = { env: { QUEUE_EMAIL_DIGEST_CONCURRENCY: '2' } };
+
+    deepStrictEqual(schema.load(named, env).queues, { 'email-digest': { concurrency: 2, retry: {} } });
+    deepStrictEqual(schema.load(env, named).queues, { 'email-digest': { concurrency: 3, retry: {} } });
+
+    const invalid = schema.safeLoad({ env: { QUEUE_EMAILS_CONCURRENCY: 'many' } });
+
+    strictEqual(invalid.success, false);
+    if (!invalid.success) {
+      deepStrictEqual(invalid.error.issues[0]?.path, ['queues', 'emails', 'concurrency']);
+    }
+
+    deepStrictEqual(
+      describeEnv(schema).map(({ key, path }) => ({ key, path })),
+      [
+        { key: 'QUEUE_<NAME>_CONCURRENCY', path: 'queues.<name>.concurrency' },
+        { key: 'QUEUE_<NAME>_RETRY_MAX', path: 'queues.<name>.retry.max' },
+        { key: 'QUEUE_<NAME>_MAX', path: 'queues.<name>.max' },
+        { key: 'QUEUE_<NAME>_TOKEN', path: 'queues.<name>.token' },
+      ],
+    );
+    throws(() => zc.record('QUEUE_', zc.object({})), /exactly one \*/);
+  });
+
+  await t.test('parses durations, byte sizes, urls, dates, ports and bigints', () => {
+    const schema = zc.define({
+      timeout: zc.env('TIMEOUT').duration(),
+      ttl: zc.env('CACHE_TTL').duration().default(60_000),
+      maxBody: zc.env('MAX_BODY').bytes(),
+      api: zc.env('API_URL').url({ protocols: ['https'] }),
+      startsAt: zc.env('STARTS_AT').date(),
+      port: zc.env('PORT').port().default(3000),
+      id: zc.env('ID').bigint(),
+    });
+
+    const config = schema.load({
+      env: {
+        TIMEOUT: '1h30m',
+        MAX_BODY: '1.5mb',
+        API_URL: 'https://api.example.com/v1',
+        STARTS_AT: '2024-01-02T03:04:05Z',
+        PORT: '8080',
+        ID: '9007199254740993',
+      },
+    });
+
+    strictEqual(config.timeout, 5_400_000);
+    strictEqual(config.ttl, 60_000);
+    strictEqual(config.maxBody, 1_572_864);
+    strictEqual(config.api instanceof URL && config.api.hostname, 'api.example.com');
+    strictEqual(config.startsAt.toISOString(), '2024-01-02T03:04:05.000Z');
+    strictEqual(config.port, 8080);
+    strictEqual(config.id, 9007199254740993n);
+
+    const fromValues = schema.load({
+      values: { timeout: '30s', maxBody: 512, api: 'https://x.test', startsAt: 0, id: 1 },
+    });
+
+    deepStrictEqual(
+      [fromValues.timeout, fromValues.maxBody, fromValues.startsAt.getTime(), fromValues.id],
+      [30_000, 512, 0, 1n],
+    );
+
+    // digit-only strings are years, timestamps have to be numbers
+    const year = schema.load(
+      { values: { timeout: '1s', maxBody: 1, api: 'https://x.test', id: 1 } },
+      {
+        env: { STARTS_AT: '2024' },
+      },
+    );
+
+    strictEqual(year.startsAt.toISOString(), '2024-01-01T00:00:00.000Z');
+
+    // bigints are serialized as strings
+    strictEqual(JSON.parse(schema.toSafeJSON(config)).id, '9007199254740993');
+  });
+
+  await t.test('reports invalid durations, byte sizes, urls, dates, ports and bigints', () => {
+    const schema = zc.define({
+      timeout: zc.env('TIMEOUT').duration(),
+      maxBody: zc.env('MAX_BODY').bytes(),
+      api: zc.env('API_URL').url({ protocols: ['https:'] }),
+      callback: zc.env('CALLBACK_URL').url(),
+      startsAt: zc.env('STARTS_AT').date(),
+      port: zc.env('PORT').port(),
+      id: zc.env('ID').bigint(),
+    });
+
+    const result = schema.safeLoad({
+      env: {
+        TIMEOUT: '30 seconds',
+        MAX_BODY: '10 parsecs',
+        API_URL: 'http://api.example.com',
+        CALLBACK_URL: 'not a url',
+        STARTS_AT: 'yesterday',
+        PORT: '65536',
+        ID: '1.5',
+      },
+    });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ message }) => message),
+        [
+          'Invalid duration "30 seconds", expected a number with a unit: ms, s, m, h, d or w',
+          'Invalid byte size "10 parsecs", expected a number with a unit: b, kb, mb, gb or tb',
+          'Invalid URL protocol "http:", expected https:',
+          'Invalid URL "not a url"',
+          'Invalid date "yesterday", expected an ISO 8601 date',
+          'Invalid port "65536", expected an integer from 0 to 65535',
+          'Invalid integer "1.5"',
+        ],
+      );
+    }
+
+    deepStrictEqual(
+      describeEnv(schema).map(({ type }) => type),
+      ['duration', 'bytes', 'url', 'url', 'date', 'port', 'bigint'],
+    );
+
+    // values holding bigints are reported, not failing to serialize
+    const limits = zc
+      .define({ limits: z.record(z.string(), z.bigint()) })
+      .safeLoad({ values: { limits: { a: 10n, b: 'x' } } });
+
+    strictEqual(limits.success, false);
+    if (!limits.success && limits.error instanceof ZodConfError) {
+      strictEqual(limits.error.details[0]?.value, '{"a":"10","b":"x"}');
+    }
+  });
+
+  await t.test('parses booleans and numbers by the parsing options', () => {
+    const schema = zc.define(
+      {
+        debug: zc.env('DEBUG').boolean(),
+        cache: zc
+          .env('CACHE')
+          .parsing({ booleans: { true: ['enabled'], false: ['disabled'] } })
+          .boolean(),
+        workers: zc.env('WORKERS').number(),
+        ratio: zc.env('RATIO').parsing({ numbers: 'finite' }).number(),
+        name: zc.env('NAME').string().optional(),
+      },
+      { parsing: { booleans: 'loose', numbers: 'integer' } },
+    );
+
+    deepStrictEqual(schema.load({ env: { DEBUG: 'YES', CACHE: 'Enabled', WORKERS: ' 4 ', RATIO: '0.5', NAME: '' } }), {
+      debug: true,
+      cache: true,
+      workers: 4,
+      ratio: 0.5,
+      name: '',
+    });
+    strictEqual(schema.load({ env: { DEBUG: 'off', CACHE: 'disabled', WORKERS: '1', RATIO: '1' } }).debug, false);
+
+    const result = schema.safeLoad({ env: { DEBUG: 'maybe', CACHE: 'on', WORKERS: '1.5', RATIO: '1e999' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ path, message }) => ({ path, message })),
+        [
+          {
+            path: ['debug'],
+            message: 'Invalid boolean "maybe" in DEBUG, expected one of true, 1, yes, on, false, 0, no, off',
+          },
+          { path: ['cache'], message: 'Invalid boolean "on" in CACHE, expected one of enabled, disabled' },
+          { path: ['workers'], message: 'Invalid number "1.5" in WORKERS, expected an integer' },
+          { path: ['ratio'], message: 'Invalid number "1e999" in RATIO, expected a finite number' },
+        ],
+      );
+    }
+  });
+
+  await t.test('rejects numbers that are not decimal and applies the empty string policy', () => {
+    const schema = zc.define({
+      port: zc.env('PORT').number().default(3000),
+      name: zc.env('NAME').string().default('app'),
+      strictPort: zc.env('STRICT_PORT').parsing({ emptyString: 'value' }).number().optional(),
+      label: zc.env('LABEL').parsing({ emptyString: 'unset' }).string().default('none'),
+    });
+
+    deepStrictEqual(schema.load({ env: { PORT: ' ', NAME: '', LABEL: '' } }), {
+      port: 3000,
+      name: '',
+      label: 'none',
+    });
+
+    const result = schema.safeLoad({ env: { PORT: '0x10', STRICT_PORT: '' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ message }) => message),
+        [
+          'Invalid number "0x10" in PORT, expected a decimal number',
+          'Invalid number "" in STRICT_PORT, expected a decimal number',
+        ],
+      );
+    }
+
+    const secret = zc.define({ pin: zc.env('PIN').secret().number() }).safeLoad({ env: { PIN: 'abc1' } });
+
+    strictEqual(secret.success, false);
+    if (!secret.success) {
+      strictEqual(secret.error.issues[0]?.message, 'Invalid number in PIN, expected a decimal number');
+    }
+  });
+
+  await t.test('parses custom env types with inline and registered parsers', (t) => {
+    // the registry is global, later tests must not see the type
+    t.after(() => zc.unregisterEnvType('hostPort'));
+
+    // each call creates a new parser, like a module reloaded by HMR
+    const registerHostPort = () =>
+      zc.registerEnvType(
+        'hostPort',
+        (raw, context) => {
+          const [host, port] = raw.split(':');
+
+          if (!host || !port) {
+            context.addIssue(`Expected host:port, got "${raw}"`);
+          }
+
+          return { host, port: Number(port) };
+        },
+        z.object({ host: z.string(), port: z.number().int() }),
+        { replace: true },
+      );
+
+    registerHostPort();
+
+    const hostPort = registerHostPort();
+    const schema = zc.define({
+      database: zc.env('DATABASE_ADDRESS').custom(hostPort),
+      cache: zc.env('CACHE_ADDRESS').custom('hostPort').optional(),
+      features: zc
+        .env('FEATURES')
+        .custom(
+          (raw) => Object.fromEntries(raw.split(',').map((pair) => pair.split('='))),
+          z.record(z.string(), z.enum(['on', 'off'])),
+        )
+        .default({}),
+    });
+
+    deepStrictEqual(schema.load({ env: { DATABASE_ADDRESS: 'db:5432', FEATURES: 'search=on,export=off' } }), {
+      database: { host: 'db', port: 5432 },
+      features: { search: 'on', export: 'off' },
+    });
+    deepStrictEqual(schema.load({ values: { database: 'db:5432', cache: { host: 'cache', port: 6379 } } }), {
+      database: { host: 'db', port: 5432 },
+      cache: { host: 'cache', port: 6379 },
+      features: {},
+    });
+    deepStrictEqual(
+      describeEnv(schema).map(({ type }) => type),
+      ['hostPort', 'hostPort', 'custom'],
+    );
+    // replacing a type is explicit, other parsers under the same name are rejected
+    throws(() => zc.registerEnvType('hostPort', String, z.string()), /Env type "hostPort" is already defined/);
+    throws(() => zc.registerEnvType('url', String, z.string(), { replace: true }), /Env type "url" is already defined/);
+    throws(() => zc.env('X').custom('missing'), /Unknown env type "missing"/);
+
+    const result = schema.safeLoad({ env: { DATABASE_ADDRESS: 'db', FEATURES: 'search=maybe' } });
+
+    strictEqual(result.success, false);
+    if (!result.success && result.error instanceof ZodConfError) {
+      deepStrictEqual(
+        result.error.issues.map(({ path, message }) => ({ path, message })),
+        [
+          { path: ['database'], message: 'Expected host:port, got "db" in DATABASE_ADDRESS' },
+          { path: ['features', 'search'], message: 'Invalid option: expected one of "on"|"off"' },
+        ],
+      );
+      deepStrictEqual(
+        result.error.details.map(({ key, value, expected }) => ({ key, value, expected })),
+        [
+          { key: 'DATABASE_ADDRESS', value: '"db"', expected: 'hostPort' },
+          { key: 'FEATURES', value: '"search=maybe"', expected: 'on|off' },
+        ],
+      );
+    }
+  });
+
+  await t.test('reports errors thrown by custom parsers and hides them for secrets', () => {
+    const schema = zc.define({
+      token: zc
+        .env('TOKEN')
+        .secret()
+        .custom((raw) => {
+          if (!raw.startsWith('tk_')) {
+            throw new Error(`Invalid token "${raw}"`);
+          }
+
+          return raw.slice(3);
+        }, z.string()),
+    });
+
+    strictEqual(schema.load({ env: { TOKEN: 'tk_abc' } }).token, 'abc');
+
+    const result = schema.safeLoad({ env: { TOKEN: 'abc' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      strictEqual(result.error.issues[0]?.message, 'Invalid value in TOKEN');
+    }
+  });
+
+  await t.test('merges values of several loaders by the merge strategy of each field', () => {
+    const schema = zc.define({
+      origins: zc.merge(zc.env('ORIGINS').array(z.string()), 'append'),
+      plugins: zc.merge(z.array(z.string()), 'prepend'),
+      servers: zc.merge(z.array(z.object({ name: z.string(), port: z.number(), tls: z.boolean() })), {
+        mergeBy: 'name',
+      }),
+      labels: zc.merge(z.record(z.string(), z.string()), 'deep').optional(),
+      limits: zc.env('LIMITS').json(z.object({ rate: z.number(), burst: z.number() })),
+      tags: z.array(z.string()),
+    });
+    const base = {
+      origins: ['https://a.example'],
+      plugins: ['core'],
+      servers: [
+        { name: 'api', port: 80, tls: false },
+        { name: 'admin', port: 81, tls: false },
+      ],
+      labels: { team: 'web', tier: 'gold' },
+      limits: { rate: 10, burst: 20 },
+      tags: ['base'],
+    };
+    const overlay = {
+      plugins: ['metrics'],
+      servers: [
+        { name: 'api', tls: true },
+        { name: 'jobs', port: 82, tls: false },
+      ],
+      labels: { tier: 'silver' },
+      limits: { rate: 5, burst: 10 },
+      tags: ['overlay'],
+    };
+
+    deepStrictEqual(schema.load({ values: base }, { values: overlay }, { env: { ORIGINS: 'https://b.example' } }), {
+      origins: ['https://a.example', 'https://b.example'],
+      plugins: ['metrics', 'core'],
+      servers: [
+        { name: 'api', port: 80, tls: true },
+        { name: 'admin', port: 81, tls: false },
+        { name: 'jobs', port: 82, tls: false },
+      ],
+      labels: { team: 'web', tier: 'silver' },
+      limits: { rate: 5, burst: 10 },
+      tags: ['overlay'],
+    });
+    deepStrictEqual(base.servers[0], { name: 'api', port: 80, tls: false });
+
+    const deep = zc.define(
+      { limits: zc.env('LIMITS').json(z.object({ rate: z.number(), burst: z.number() })) },
+      { merge: 'deep' },
+    );
+
+    deepStrictEqual(deep.load({ values: { limits: { rate: 10, burst: 20 } } }, { env: { LIMITS: '{"rate":5}' } }), {
+      limits: { rate: 5, burst: 20 },
+    });
+
+    // the strategy belongs to the wrapped copy, not to the shared schema
+    const hosts = z.array(z.string());
+    const shared = zc.define({ primary: zc.merge(hosts, 'append'), replica: hosts });
+
+    deepStrictEqual(
+      shared.load({ values: { primary: ['a'], replica: ['a'] } }, { values: { primary: ['b'], replica: ['b'] } }),
+      {
+        primary: ['a', 'b'],
+        replica: ['b'],
+      },
+    );
+  });
+
+  await t.test('clears values of earlier loaders with null and the unset token', () => {
+    const schema = zc.define(
+      {
+        port: zc.env('PORT').number().default(3000),
+        proxy: zc.env('PROXY_URL').string().nullable(),
+        region: zc.env('REGION').string().optional(),
+        fallback: zc.env('FALLBACK').string().nullable().default('primary'),
+        name: zc.env('NAME').string(),
+      },
+      { parsing: { unset: '__unset__' } },
+    );
+    const base = { port: 8080, proxy: 'http://proxy', region: 'eu', fallback: 'secondary', name: 'app' };
+
+    deepStrictEqual(
+      schema.load({ values: base }, { values: { port: null, proxy: null, region: null, fallback: null } }),
+      {
+        port: 3000,
+        proxy: null,
+        fallback: null,
+        name: 'app',
+      },
+    );
+    deepStrictEqual(
+      schema.load(
+        { values: base },
+        { env: { PORT: '__unset__', PROXY_URL: '__unset__', REGION: ' __unset__ ', FALLBACK: '__unset__' } },
+      ),
+      { port: 3000, proxy: null, fallback: null, name: 'app' },
+    );
+    // a later loader sets the field again, and without the option the token is a plain value
+    deepStrictEqual(
+      schema.load({ values: base }, { values: { region: null } }, { env: { REGION: 'us' } }).region,
+      'us',
+    );
+    strictEqual(zc.define({ name: zc.env('NAME').string() }).load({ env: { NAME: '__unset__' } }).name, '__unset__');
+
+    const { sources } = schema.loadWithSources(
+      { values: base },
+      { env: { PORT: '__unset__', PROXY_URL: '__unset__' } },
+    );
+
+    deepStrictEqual(sources.port, { type: 'default' });
+    deepStrictEqual(sources.proxy, { type: 'env', loader: 1, key: 'PROXY_URL' });
+
+    const result = schema.safeLoad({ values: base }, { env: { NAME: '__unset__' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ path }) => path),
+        [['name']],
+      );
+    }
+
+    // null is still invalid for a field that is neither nullable nor optional
+    const required = schema.safeLoad({ values: { ...base, name: null } });
+
+    strictEqual(required.success, false);
+    if (!required.success) {
+      deepStrictEqual(
+        required.error.issues.map(({ path, message }) => ({ path, message })),
+        [{ path: ['name'], message: 'Invalid input: expected string, received null' }],
+      );
+    }
+  });
+
+  await t.test('loads command line flags with dotted and kebab-case names', () => {
+    const schema = zc.define({
+      port: zc.env('PORT').number().default(3000),
+      debug: zc.env('DEBUG').boolean().default(true),
+      verbose: zc.env('VERBOSE').boolean().default(false),
+      logLevel: zc.env('LOG_LEVEL').enum(['info', 'debug']).default('info'),
+      origins: zc.env('ORIGINS').array(z.string()).default([]),
+      proxy: zc.env('PROXY').string().nullable().default('http://proxy'),
+      database: zc.object({
+        pool: zc.object({ max: zc.env('DB_POOL_MAX').number().default(10) }),
+      }),
+      tags: z.array(z.string()).optional(),
+      offset: z.number().optional(),
+    });
+    const argv = [
+      'serve',
+      '--port',
+      '8080',
+      '--database.pool.max=20',
+      '--no-debug',
+      '--verbose',
+      'input.txt',
+      '--log-level=debug',
+      '--origins',
+      'https://a.example,https://b.example',
+      '--origins=https://c.example',
+      '--no-proxy',
+      '--tags',
+      'a',
+      '--tags',
+      'b',
+      '--offset',
+      '-5',
+      '--',
+      '--port=1',
+    ];
+
+    deepStrictEqual(schema.load({ env: { PORT: '9000', DEBUG: 'true' } }, { argv }), {
+      port: 8080,
+      debug: false,
+      verbose: true,
+      logLevel: 'debug',
+      origins: ['https://a.example', 'https://b.example', 'https://c.example'],
+      proxy: null,
+      database: { pool: { max: 20 } },
+      tags: ['a', 'b'],
+      offset: -5,
+    });
+    deepStrictEqual(schema.loadWithSources({ argv: ['--port=1'], name: 'cli' }).sources.port, {
+      type: 'argv',
+      loader: 0,
+      name: 'cli',
+      flag: '--port',
+    });
+    strictEqual(schema.load({ argv: ['--verbose', 'false'] }).verbose, false);
+
+    const result = schema.safeLoad({ argv: ['--port=ten', '--log-level', '--porrt=1'] }, { strict: true });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ message }) => message),
+        [
+          'Invalid number "ten" in --port, expected a decimal number',
+          'Missing value for --log-level',
+          'Unrecognized flag "--porrt", did you mean "--port"?',
+        ],
+      );
+    }
+  });
+
+  await t.test('loads loose booleans and record entries from command line flags', () => {
+    const schema = zc.define(
+      {
+        debug: zc.env('DEBUG').boolean().default(false),
+        queues: zc.record(
+          'QUEUE_*_',
+          zc.object({
+            concurrency: zc.env('CONCURRENCY').number().default(1),
+            paused: zc.env('PAUSED').boolean().default(false),
+          }),
+        ),
+      },
+      { parsing: { booleans: 'loose' } },
+    );
+
+    deepStrictEqual(
+      schema.load(
+        { values: { queues: { emailDigest: { concurrency: 2 } } } },
+        { env: { QUEUE_EMAIL_DIGEST_PAUSED: 'true' } },
+        {
+          argv: [
+            '--debug',
+            'yes',
+            '--queues.email-digest.concurrency=4',
+            '--queues.reports.concurrency',
+            '8',
+            '--no-queues.email-digest.paused',
+          ],
+        },
+      ),
+      {
+        debug: true,
+        queues: { emailDigest: { concurrency: 4, paused: false }, reports: { concurrency: 8, paused: false } },
+      },
+    );
+    // without loose parsing, `yes` is a positional argument
+    strictEqual(
+      zc.define({ debug: zc.env('DEBUG').boolean().default(false) }).load({ argv: ['--debug', 'yes'] }).debug,
+      true,
+    );
+  });
+
+  await t.test('formats the --help text of the command line flags', () => {
+    const schema = zc.define({
+      port: zc.env('PORT').number().default(3000).describe('HTTP port'),
+      debug: zc.env('DEBUG').boolean().default(false),
+      logLevel: zc.env('LOG_LEVEL').enum(['info', 'debug']).optional(),
+      origins: zc.env('ORIGINS').array(z.string()).default([]),
+      database: zc.object({ url: zc.env('DATABASE_URL').secret().string() }),
+      name: z.string().default('a'),
+      retries: z.number().optional().describe('Retry count'),
+    });
+
+    strictEqual(
+      formatArgvHelp(schema, { usage: 'Usage: server [options]' }),
+      [
+        'Usage: server [options]',
+        '',
+        'Options:',
+        '  --port <number>           HTTP port (env: PORT, default: 3000)',
+        '  --[no-]debug              (env: DEBUG, default: false)',
+        '  --log-level <info|debug>  (env: LOG_LEVEL)',
+        '  --origins <array>         (env: ORIGINS, repeatable)',
+        '  --database.url <string>   (required, secret, env: DATABASE_URL)',
+        '  --name <string>           (default: a)',
+        '  --retries <number>        Retry count',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  await t.test('computes fields from the validated configuration', () => {
+    type Server = { host: string; port: number; tls: boolean };
+
+    const schema = zc.define({
+      origin: zc.computed((config: { server: Server & { url: string } }) => new URL(config.server.url).origin),
+      server: zc.object({
+        host: zc.env('HOST').string().default('localhost'),
+        port: zc.env('PORT').number().default(3000),
+        tls: zc.env('TLS').boolean().default(false),
+        url: zc.computed(
+          (config: { server: Server }) =>
+            `${config.server.tls ? 'https' : 'http'}://${config.server.host}:${config.server.port}/`,
+        ),
+      }),
+      poolMax: zc.computed(zc.env('DB_POOL_MAX').number().optional(), () => 2 * 4),
+    });
+
+    const config = schema.load({ env: { HOST: 'api.example', TLS: 'true' } });
+
+    deepStrictEqual(config, {
+      origin: 'https://api.example:3000',
+      server: { host: 'api.example', port: 3000, tls: true, url: 'https://api.example:3000/' },
+      poolMax: 8,
+    });
+
+    // inferred types of computed fields
+    const origin: string = config.origin;
+    const poolMax: number = config.poolMax;
+
+    deepStrictEqual([origin, poolMax], ['https://api.example:3000', 8]);
+    strictEqual(schema.load({ env: { DB_POOL_MAX: '20' } }).poolMax, 20);
+    deepStrictEqual(schema.loadWithSources({ env: { DB_POOL_MAX: '20' } }).sources, {
+      origin: { type: 'computed' },
+      'server.host': { type: 'default' },
+      'server.port': { type: 'default' },
+      'server.tls': { type: 'default' },
+      'server.url': { type: 'computed' },
+      poolMax: { type: 'env', loader: 0, key: 'DB_POOL_MAX' },
+    });
+  });
+
+  await t.test('computes fields added to the schema with the configuration type inferred', () => {
+    const poolMax = zc.env('DB_POOL_MAX').number().optional();
+    const schema = zc
+      .define({
+        database: zc.object({
+          host: zc.env('DB_HOST').string().default('localhost'),
+          port: zc.env('DB_PORT').number().default(5432),
+        }),
+        poolMax,
+      })
+      .computed('url', (config) => `postgres://${config.database.host}:${config.database.port}`)
+      .computed('primary', (config) => config.database)
+      .computed('poolMax', poolMax, () => 4);
+
+    const config = schema.load({ env: { DB_HOST: 'db.example' } });
+    const url: string = config.url;
+    const max: number = config.poolMax;
+
+    deepStrictEqual(
+      { url, max, primary: config.primary },
+      { url: 'postgres://db.example:5432', max: 4, primary: { host: 'db.example', port: 5432 } },
+    );
+    // sections are stored as plain copies, not as the views computations read them through
+    strictEqual(types.isProxy(config.primary), false);
+    // the schema passed to computed() loads as before
+    strictEqual(zc.define({ poolMax }).load({ env: {} }).poolMax, undefined);
+
+    // computed fields have no flag and no values key, only the one with a schema is loaded
+    strictEqual(schema.load({ values: { url: 'x' } }, { argv: ['--url', 'y'] }).url, 'postgres://localhost:5432');
+    deepStrictEqual(
+      schema
+        .safeLoad({ values: { url: 'x' } }, { argv: ['--primary', 'y'] }, { strict: true })
+        .error?.issues.map(({ message }) => message),
+      ['Unrecognized key "url"', 'Unrecognized flag "--primary"'],
+    );
+    deepStrictEqual(
+      formatArgvHelp(schema)
+        .split('\n')
+        .map((line) => line.trim().split(' ')[0]),
+      ['Options:', '--database.host', '--database.port', '--pool-max', ''],
+    );
+  });
+
+  await t.test('reports circular and failing computed fields', () => {
+    const schema = zc.define({
+      a: zc.computed((config: { b: number }) => config.b + 1),
+      b: zc.computed((config: { a: number }) => config.a + 1),
+      c: zc.computed(() => {
+        throw new Error('no CPU count');
+      }),
+      port: zc.env('PORT').number(),
+    });
+
+    const invalid = schema.safeLoad({ env: { PORT: 'x' } });
+
+    // computed fields are only evaluated once the other fields are valid
+    strictEqual(invalid.success, false);
+    if (!invalid.success) {
+      deepStrictEqual(
+        invalid.error.issues.map(({ path }) => path),
+        [['port']],
+      );
+    }
+
+    const result = schema.safeLoad({ env: { PORT: '80' } });
+
+    strictEqual(result.success, false);
+    if (!result.success) {
+      deepStrictEqual(
+        result.error.issues.map(({ path, message }) => ({ path, message })),
+        [
+          { path: ['a'], message: 'Circular reference between computed fields: a -> b -> a' },
+          { path: ['c'], message: 'Cannot compute c: no CPU count' },
+        ],
+      );
+    }
+  });
+
+  await t.test('checks cross-field rules and reports them at field paths', () => {
+    const base = zc.define({
+      tls: zc.object({
+        enabled: zc.env('TLS_ENABLED').boolean().default(false),
+        cert: zc.env('TLS_CERT').string().optional(),
+        key: zc.env('TLS_KEY').secret().string().optional(),
+      }),
+      pool: zc.object({
+        min: zc.env('DB_POOL_MIN').number().default(1),
+        max: zc.env('DB_POOL_MAX').number().default(10),
+      }),
+    });
+    const schema = base
+      .refine(zc.requireIf((config) => config.tls.enabled, ['tls.cert', 'tls.key']))
+      .refine((config) => config.pool.min <= config.pool.max, {
+        message: 'Must not be greater than the maximum',
+        paths: ['pool.min'],
+      });
+
+    deepStrictEqual(schema.load({ env: { TLS_ENABLED: 'true', TLS_CERT: '/cert.pem', TLS_KEY: '/key.pem' } }), {
+      tls: { enabled: true, cert: '/cert.pem', key: '/key.pem' },
+      pool: { min: 1, max: 10 },
+    });
+    // refine() returns a new schema
+    strictEqual(base.safeLoad({ env: { TLS_ENABLED: 'true' } }).success, true);
+
+    const result = schema.safeLoad({ env: { TLS_ENABLED: 'true', TLS_CERT: '/cert.pem', DB_POOL_MIN: '20' } });
+
+    strictEqual(result.success, false);
+    if (!result.success && result.error instanceof ZodConfError) {
+      deepStrictEqual(
+        result.error.details.map(({ path, key, message }) => ({ path, key, message })),
+        [
+          { path: 'tls.key', key: 'TLS_KEY', message: 'Required' },
+          { path: 'pool.min', key: 'DB_POOL_MIN', message: 'Must not be greater than the maximum' },
+        ],
+      );
+    }
+
+    // rules are only checked once the fields are valid
+    const invalid = schema.safeLoad({ env: { DB_POOL_MIN: 'x' } });
+
+    strictEqual(invalid.success, false);
+    if (!invalid.success) {
+      deepStrictEqual(
+        invalid.error.issues.map(({ path }) => path),
+        [['pool', 'min']],
+      );
+    }
+
+    // nor when a computed field failed, as rules see computed values
+    const computing = base
+      .computed('poolSize', () => {
+        throw new Error('no CPU count');
+      })
+      .refine((config) => config.poolSize > 0, { message: 'Must be positive', paths: ['poolSize'] });
+
+    deepStrictEqual(
+      computing.safeLoad({ env: {} }).error?.issues.map(({ message }) => message),
+      ['Cannot compute poolSize: no CPU count'],
+    );
+
+    const throwing = base.refine({
+      validate: () => {
+        throw new Error('boom');
+      },
+    });
+
+    deepStrictEqual(
+      throwing.safeLoad({ env: {} }).error?.issues.map(({ path, message }) => ({ path, message })),
+      [{ path: [], message: 'Validation rule failed: boom' }],
+    );
+  });
 });
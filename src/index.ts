@@ -1,15 +1,61 @@
 import { boolean, number, string, enum as zenum } from 'zod';
-import { define } from './values/define.js';
+import { nodeFileSystem } from './loaders/files.js';
+import { computed } from './values/computed.js';
+import { define as defineSchema } from './values/define.js';
+import { discriminated } from './values/discriminated.js';
+import { registerEnvType, unregisterEnvType } from './values/env-types.js';
 import { env } from './values/env.js';
+import { merge } from './values/merge.js';
 import { object } from './values/object.js';
+import { profileDefaults } from './values/profile.js';
+import { record } from './values/record.js';
+import { requireIf } from './values/rules.js';
 
-export { ZodConfSchema, type Loader, type EnvLoader, type ValuesLoader } from './values/define.js';
+export { describeEnv, type EnvVarInfo } from './docs/describe.js';
+export { formatArgvHelp, formatEnvExample, formatEnvJson, formatEnvMarkdown } from './docs/format.js';
+export { parseDotenv } from './loaders/dotenv.js';
+export { fromDotenvFile, fromJsonFile, fromTomlFile, fromYamlFile, type FileLoaderOptions } from './loaders/files.js';
+export { type EnvParseContext, type EnvParser, type EnvType } from './values/env-types.js';
+export { ZodConfError, formatConfigError, type ConfigIssue } from './values/errors.js';
+export { type MergeStrategy } from './values/merge.js';
+export { type ParseOptions } from './values/parsing.js';
+export { type ConfigRule, type RefineOptions, type RuleContext } from './values/rules.js';
+export {
+  ZodConfSchema,
+  type ArgvLoader,
+  type AsyncLoader,
+  type ConfigChange,
+  type ConfigWarning,
+  type ConfigWatcher,
+  type DefineOptions,
+  type FileSystem,
+  type LoadArgs,
+  type LoadAsyncArgs,
+  type LoadOptions,
+  type ProfileOptions,
+  type Loader,
+  type EnvLoader,
+  type ValuesLoader,
+  type ValueSource,
+  type WatchOptions,
+} from './values/define.js';
+
+// the core takes file access from the options, the package entry reads files through node:fs
+const define: typeof defineSchema = (shape, options = {}) => defineSchema(shape, { fs: nodeFileSystem, ...options });
 
 export const zc = {
   // core values
   define,
   env,
   object,
+  discriminated,
+  record,
+  merge,
+  computed,
+  profileDefaults,
+  requireIf,
+  registerEnvType,
+  unregisterEnvType,
 
   // re-export common zod values for convenience
   string,
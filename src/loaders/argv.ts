@@ -0,0 +1,70 @@
+// command line flags: `--name value`, `--name=value`, `--flag`, `--no-flag`, repeated for arrays
+
+/**
+ * A flag as it appeared on the command line.
+ */
+export type ArgvFlag = {
+  // normalized name, e.g. `database.pool-max` for `--database.poolMax`
+  name: string;
+  // the part after `=`, or the argument following the flag if it is not a flag itself
+  value?: string;
+  // whether the value was given with `=`, a following argument may also be a positional argument
+  attached: boolean;
+};
+
+// `-5` and `-0.5` are values, not flags
+const NEGATIVE_NUMBER = /^-\d/;
+
+// kebab-case of a single path segment, e.g. `poolMax` -> `pool-max`
+const toKebabCase = (segment: string): string =>
+  segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/_/g, '-')
+    .toLowerCase();
+
+/**
+ * Converts a field path to its flag name without the leading dashes, e.g. `['database', 'poolMax']` ->
+ * `database.pool-max`.
+ */
+export const toFlagName = (path: readonly string[]): string => path.map(toKebabCase).join('.');
+
+/**
+ * Collects the flags of a command line in order. Positional arguments and everything after `--` are ignored.
+ *
+ * @param argv - Arguments without the executable and script, e.g. `process.argv.slice(2)`
+ * @returns Flags with normalized names
+ */
+export const parseArgv = (argv: readonly string[]): ArgvFlag[] => {
+  const flags: ArgvFlag[] = [];
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index] as string;
+
+    if (arg === '--') {
+      break;
+    }
+
+    if (!arg.startsWith('--')) {
+      continue;
+    }
+
+    const separator = arg.indexOf('=');
+    const name = toFlagName((separator === -1 ? arg.slice(2) : arg.slice(2, separator)).split('.'));
+
+    if (separator !== -1) {
+      flags.push({ name, value: arg.slice(separator + 1), attached: true });
+      continue;
+    }
+
+    const next = argv[index + 1];
+
+    if (next !== undefined && (!next.startsWith('-') || NEGATIVE_NUMBER.test(next))) {
+      flags.push({ name, value: next, attached: false });
+      index++;
+    } else {
+      flags.push({ name, attached: false });
+    }
+  }
+
+  return flags;
+};
@@ -0,0 +1,85 @@
+// `.env` parser: KEY=value lines, `export` prefixes, comments, single, double and backtick quotes.
+// values are never expanded or evaluated
+
+const LINE = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/;
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+// position of the quote closing the value, skipping escaped quotes in double quoted values
+const findClosingQuote = (value: string, quote: string): number => {
+  for (let index = 1; index < value.length; index++) {
+    if (quote === '"' && value[index] === '\\') {
+      index++;
+    } else if (value[index] === quote) {
+      return index;
+    }
+  }
+
+  return -1;
+};
+
+const hasClosingQuote = (value: string, quote: string): boolean => findClosingQuote(value, quote) !== -1;
+
+/**
+ * Parses the contents of a `.env` file.
+ *
+ * - `KEY=value`, optionally prefixed with `export`
+ * - blank lines and lines starting with `#` are ignored, as is ` #` and everything after it in unquoted values
+ * - `'single'` quoted values are taken literally, `"double"` quoted values support `\n`, `\r`, `\t`, `\"` and `\\`
+ * - quoted values may span multiple lines
+ *
+ * @param content - Contents of the file
+ * @returns Parsed variables
+ * @throws {Error} If a line is not a valid assignment or a quote is not closed
+ */
+export const parseDotenv = (content: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index] as string;
+
+    if (!line.trim() || line.trimStart().startsWith('#')) {
+      continue;
+    }
+
+    const match = LINE.exec(line);
+
+    if (!match) {
+      throw new Error(`Invalid line ${index + 1}: expected KEY=value`);
+    }
+
+    const key = match[1] as string;
+    let value = match[2] as string;
+    const quote = value[0];
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      const start = index;
+
+      // collect lines until the closing quote
+      while (!hasClosingQuote(value, quote)) {
+        if (++index >= lines.length) {
+          throw new Error(`Invalid line ${start + 1}: missing closing ${quote}`);
+        }
+
+        value += `\n${lines[index]}`;
+      }
+
+      const end = findClosingQuote(value, quote);
+      const rest = value.slice(end + 1).trim();
+
+      if (rest && !rest.startsWith('#')) {
+        throw new Error(`Invalid line ${index + 1}: unexpected text after closing ${quote}`);
+      }
+
+      const inner = value.slice(1, end);
+
+      result[key] =
+        quote === '"' ? inner.replace(/\\([nrt"\\])/g, (_, char: string) => ESCAPES[char] as string) : inner;
+    } else {
+      result[key] = value.replace(/\s+#.*$/, '').trim();
+    }
+  }
+
+  return result;
+};
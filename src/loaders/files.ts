@@ -0,0 +1,147 @@
+import { readFileSync, unwatchFile, watchFile } from 'node:fs';
+import { createRequire } from 'node:module';
+import { type EnvLoader, type FileSystem, type ValuesLoader } from '../values/define.js';
+import { parseDotenv } from './dotenv.js';
+
+export type FileLoaderOptions = {
+  // a missing file produces an empty loader instead of an error
+  optional?: boolean;
+};
+
+const require = createRequire(import.meta.url);
+
+const readConfigFile = (path: string, options: FileLoaderOptions): string | undefined => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (error) {
+    if (options.optional && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+
+    throw new Error(`Cannot read config file ${path}: ${(error as Error).message}`);
+  }
+};
+
+// parsers of optional peer dependencies are loaded on first use
+const requireParser = (name: string, format: string): { parse: (content: string) => unknown } => {
+  try {
+    return require(name);
+  } catch (_error) {
+    throw new Error(`Loading ${format} files requires the optional peer dependency "${name}" (npm install ${name})`);
+  }
+};
+
+const parseConfigFile = <T>(path: string, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    throw new Error(`Cannot parse config file ${path}: ${(error as Error).message}`);
+  }
+};
+
+const fileValues = (path: string, options: FileLoaderOptions, parse: (content: string) => unknown): ValuesLoader => {
+  const content = readConfigFile(path, options);
+  const values = content === undefined ? {} : (parseConfigFile(path, () => parse(content)) ?? {});
+
+  if (typeof values !== 'object' || Array.isArray(values)) {
+    throw new Error(`Config file ${path} must contain an object`);
+  }
+
+  return { values: values as Record<string, unknown>, name: path, file: path };
+};
+
+/**
+ * Creates a `values` loader from a JSON file.
+ *
+ * @param path - Path of the file
+ * @param options - `optional: true` to ignore a missing file
+ * @returns A loader for `load()`, issues caused by its values mention the file
+ * @throws {Error} If the file is missing (unless optional), unreadable or invalid
+ *
+ * @example
+ * ```typescript
+ * const config = schema.load(fromJsonFile('config.json'), { env: process.env });
+ * ```
+ */
+export const fromJsonFile = (path: string, options: FileLoaderOptions = {}): ValuesLoader => {
+  return fileValues(path, options, (content) => JSON.parse(content));
+};
+
+/**
+ * Creates a `values` loader from a YAML file. Requires the `yaml` package.
+ *
+ * @param path - Path of the file
+ * @param options - `optional: true` to ignore a missing file
+ * @returns A loader for `load()`, issues caused by its values mention the file
+ * @throws {Error} If the file is missing (unless optional), unreadable or invalid
+ *
+ * @example
+ * ```typescript
+ * const config = schema.load(
+ *   fromYamlFile('config.yml'),
+ *   fromYamlFile('config.local.yml', { optional: true }),
+ *   { env: process.env },
+ * );
+ * ```
+ */
+export const fromYamlFile = (path: string, options: FileLoaderOptions = {}): ValuesLoader => {
+  return fileValues(path, options, (content) => requireParser('yaml', 'YAML').parse(content));
+};
+
+/**
+ * Creates a `values` loader from a TOML file. Requires the `smol-toml` package.
+ *
+ * @param path - Path of the file
+ * @param options - `optional: true` to ignore a missing file
+ * @returns A loader for `load()`, issues caused by its values mention the file
+ * @throws {Error} If the file is missing (unless optional), unreadable or invalid
+ *
+ * @example
+ * ```typescript
+ * const config = schema.load(fromTomlFile('config.toml'), { env: process.env });
+ * ```
+ */
+export const fromTomlFile = (path: string, options: FileLoaderOptions = {}): ValuesLoader => {
+  return fileValues(path, options, (content) => requireParser('smol-toml', 'TOML').parse(content));
+};
+
+/**
+ * Creates an `env` loader from a `.env` file, using the built-in parser (see `parseDotenv()`).
+ *
+ * @param path - Path of the file
+ * @param options - `optional: true` to ignore a missing file
+ * @returns A loader for `load()`, issues caused by its values mention the file
+ * @throws {Error} If the file is missing (unless optional), unreadable or invalid
+ *
+ * @example
+ * ```typescript
+ * // process.env overrides .env
+ * const config = schema.load(fromDotenvFile('.env', { optional: true }), { env: process.env });
+ * ```
+ */
+export const fromDotenvFile = (path: string, options: FileLoaderOptions = {}): EnvLoader => {
+  const content = readConfigFile(path, options);
+  const env = content === undefined ? {} : parseConfigFile(path, () => parseDotenv(content));
+
+  return { env, name: path, file: path };
+};
+
+/**
+ * File access through `node:fs`, passed to the schemas created with `zc.define()`.
+ */
+export const nodeFileSystem: FileSystem = {
+  readFile: (path) => readFileSync(path, 'utf8'),
+  loadConfigFile: (path) => {
+    if (path.endsWith('.json')) {
+      return fromJsonFile(path, { optional: true });
+    }
+
+    return path.endsWith('.toml') ? fromTomlFile(path, { optional: true }) : fromYamlFile(path, { optional: true });
+  },
+  watchFile: (path, options, listener) => {
+    // polling also notices files that are replaced or created later, as rotated secrets usually are
+    watchFile(path, options, listener);
+
+    return () => unwatchFile(path, listener);
+  },
+};
@@ -0,0 +1,155 @@
+// schemas of the env types that parse strings with units or formats, they accept parsed values from `values` loaders too
+
+import { bigint, date, instanceof as zinstanceof, number, string, union, NEVER, type core } from 'zod';
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+// binary multiples, as most tools mean them for memory and body sizes
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const DURATION = /^(?:\d+(?:\.\d+)?(?:ms|s|m|h|d|w))+$/;
+const DURATION_PART = /(\d+(?:\.\d+)?)(ms|s|m|h|d|w)/g;
+const BYTES = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb|tb|kib|mib|gib|tib)?$/;
+const INTEGER = /^-?\d+$/;
+
+type Context = core.$RefinementCtx;
+
+// the message quotes the value, e.g. `Invalid URL "x"`; `params.secretMessage` leaves it out for secret fields
+const fail = (context: Context, subject: string, value: unknown, expected?: string): never => {
+  const suffix = expected ? `, expected ${expected}` : '';
+
+  context.addIssue({
+    code: 'custom',
+    message: `${subject} "${String(value)}"${suffix}`,
+    params: { secretMessage: `${subject}${suffix}` },
+  });
+
+  return NEVER;
+};
+
+/**
+ * Milliseconds, from a number or a string like `500`, `500ms`, `30s`, `5m`, `1h`, `1.5d`, `2w` or `1h30m`.
+ */
+export const durationSchema = () =>
+  union([number().nonnegative(), string()]).transform((value, context) => {
+    if (typeof value === 'number') {
+      return value;
+    }
+
+    const trimmed = value.trim().toLowerCase();
+
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+      return Number(trimmed);
+    }
+
+    if (!DURATION.test(trimmed)) {
+      return fail(context, 'Invalid duration', value, 'a number with a unit: ms, s, m, h, d or w');
+    }
+
+    return [...trimmed.matchAll(DURATION_PART)].reduce(
+      (total, [, amount, unit]) => total + Number(amount) * (DURATION_UNITS[unit as string] as number),
+      0,
+    );
+  });
+
+/**
+ * Bytes, from a number or a string like `512`, `512b`, `64kb`, `10mb` or `1.5gb` (multiples of 1024).
+ */
+export const bytesSchema = () =>
+  union([number().int().nonnegative(), string()]).transform((value, context) => {
+    if (typeof value === 'number') {
+      return value;
+    }
+
+    const match = BYTES.exec(value.trim().toLowerCase());
+
+    if (!match) {
+      return fail(context, 'Invalid byte size', value, 'a number with a unit: b, kb, mb, gb or tb');
+    }
+
+    const [, amount, unit = 'b'] = match;
+
+    return Math.floor(Number(amount) * (BYTE_UNITS[unit.replace('ib', 'b')] as number));
+  });
+
+/**
+ * A `URL` object, from a URL or a string, optionally restricted to some protocols.
+ */
+export const urlSchema = (protocols?: string[]) => {
+  // accept `https` as well as `https:`
+  const allowed = protocols?.map((protocol) => (protocol.endsWith(':') ? protocol : `${protocol}:`));
+
+  return union([zinstanceof(URL), string()]).transform((value, context) => {
+    let url: URL;
+
+    try {
+      url = typeof value === 'string' ? new URL(value.trim()) : value;
+    } catch (_error) {
+      return fail(context, 'Invalid URL', value);
+    }
+
+    if (allowed && !allowed.includes(url.protocol)) {
+      return fail(context, 'Invalid URL protocol', url.protocol, allowed.join(', '));
+    }
+
+    return url;
+  });
+};
+
+/**
+ * A `Date`, from a date, a string in a format `Date` understands, e.g. ISO 8601, or a timestamp in milliseconds.
+ * Timestamps must be numbers: a digit-only string such as `2024` is a year, not a timestamp.
+ */
+export const dateSchema = () =>
+  union([date(), number(), string()]).transform((value, context) => {
+    const parsed = new Date(value);
+
+    if (isNaN(parsed.getTime())) {
+      return fail(context, 'Invalid date', value, 'an ISO 8601 date');
+    }
+
+    return parsed;
+  });
+
+/**
+ * A port number, an integer from 0 to 65535.
+ */
+export const portSchema = () =>
+  union([number(), string()]).transform((value, context) => {
+    const port = typeof value === 'string' && INTEGER.test(value.trim()) ? Number(value) : value;
+
+    if (typeof port !== 'number' || !Number.isInteger(port) || port < 0 || port > 65535) {
+      return fail(context, 'Invalid port', value, 'an integer from 0 to 65535');
+    }
+
+    return port;
+  });
+
+/**
+ * A `bigint`, from a bigint, an integer number or a string of digits.
+ */
+export const bigintSchema = () =>
+  union([bigint(), number(), string()]).transform((value, context) => {
+    if (typeof value === 'bigint') {
+      return value;
+    }
+
+    if (typeof value === 'number' ? !Number.isInteger(value) : !INTEGER.test(value.trim())) {
+      return fail(context, 'Invalid integer', value);
+    }
+
+    return BigInt(typeof value === 'string' ? value.trim() : value);
+  });
@@ -0,0 +1,217 @@
+// fields derived from other configuration values after validation
+
+import { custom, ZodObject, type core, type output, type ZodRawShape, type ZodType } from 'zod';
+import { isPlainObject } from './diff.js';
+import {
+  _computedMetadata,
+  cloneSchema,
+  findComputedMetadata,
+  findEnvMetadata,
+  findRecordMetadata,
+  findUnionMetadata,
+  type ComputedMetadata,
+} from './env-metadata.js';
+
+type ComputedField = { path: string[]; metadata: ComputedMetadata };
+
+// dotted paths of the fields of a cycle, starting and ending with the same field
+class CircularComputedError extends Error {
+  constructor(readonly cycle: string[]) {
+    super('Circular computed fields');
+  }
+}
+
+/**
+ * Creates a field derived from other values of the configuration. The function receives the validated
+ * configuration after all loaders were applied and defaults filled in; reading another computed field computes
+ * that one first, circular references are reported as issues.
+ *
+ * With a schema the field is loaded like any other, and only computed when no loader or default supplied a value.
+ * The `config` parameter is typed by its annotation; `schema.computed()` infers it from the schema instead.
+ *
+ * @param compute - Derives the value from the whole configuration, errors it throws are reported as issues
+ * @returns A schema whose output is the computed value
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   host: env('HOST').string().default('localhost'),
+ *   port: env('PORT').number().default(3000),
+ *   tls: env('TLS').boolean().default(false),
+ *   baseUrl: computed((config: { host: string; port: number; tls: boolean }) =>
+ *     `${config.tls ? 'https' : 'http'}://${config.host}:${config.port}`,
+ *   ),
+ *   // DB_POOL_MAX when set, twice the CPU count otherwise
+ *   poolMax: computed(env('DB_POOL_MAX').number().optional(), () => 2 * availableParallelism()),
+ * });
+ *
+ * schema.load({ env: {} }).baseUrl; // 'http://localhost:3000'
+ * ```
+ */
+export function computed<R, C>(compute: (config: C) => R): ZodType<R, R>;
+export function computed<S extends ZodType, R, C>(
+  schema: S,
+  compute: (config: C) => R,
+): ZodType<Exclude<output<S>, undefined> | R, core.input<S>>;
+export function computed(schemaOrCompute: ZodType | ((config: any) => unknown), compute?: (config: any) => unknown) {
+  if (typeof schemaOrCompute === 'function') {
+    // the value is filled in after validation, whatever the loaders supplied
+    const schema = custom(() => true);
+
+    _computedMetadata.set(schema, { compute: schemaOrCompute, fallback: false });
+
+    return schema;
+  }
+
+  // the passed schema keeps loading as is where else it is used
+  const schema = cloneSchema(schemaOrCompute);
+
+  _computedMetadata.set(schema, { compute: compute as (config: any) => unknown, fallback: true });
+
+  return schema;
+}
+
+/**
+ * Whether a field is always computed, as created by `computed(compute)` without a schema. No loader sets such
+ * fields, and they have no env var or flag.
+ */
+export const isAlwaysComputed = (schema: ZodType): boolean => findComputedMetadata(schema)?.fallback === false;
+
+// computed fields in the loaded configuration, in declaration order; only the selected branch of a union counts
+const collectComputed = (shape: ZodRawShape, data: unknown, path: string[]): ComputedField[] => {
+  if (!isPlainObject(data)) {
+    return [];
+  }
+
+  return Object.entries(shape).flatMap(([key, value]) => {
+    const schema = value as ZodType;
+    const fieldPath = [...path, key];
+    const metadata = findComputedMetadata(schema);
+
+    if (metadata) {
+      return [{ path: fieldPath, metadata }];
+    }
+
+    if (schema instanceof ZodObject && !findEnvMetadata(schema)) {
+      return collectComputed(schema.shape, data[key], fieldPath);
+    }
+
+    const record = findRecordMetadata(schema);
+    const entries = data[key];
+
+    if (record && isPlainObject(entries)) {
+      return Object.keys(entries).flatMap((name) =>
+        collectComputed(record.entry.shape, entries[name], [...fieldPath, name]),
+      );
+    }
+
+    const union = findUnionMetadata(schema);
+    const section = data[key];
+    const branch = union && isPlainObject(section) ? union.branches[section[union.property] as string] : undefined;
+
+    return branch ? collectComputed(branch.shape, section, fieldPath) : [];
+  });
+};
+
+/**
+ * Computes the computed fields of a validated configuration in place.
+ *
+ * @param shape - Shape of the configuration schema
+ * @param data - Validated configuration
+ * @returns Dotted paths of the computed values, and issues for circular references and failed computations
+ */
+export const applyComputed = (
+  shape: ZodRawShape,
+  data: Record<string, unknown>,
+): { computed: string[]; issues: core.$ZodIssue[] } => {
+  const fields = collectComputed(shape, data, []);
+  const byPath = new Map(fields.map((field) => [field.path.join('.'), field]));
+  const done = new Set<string>();
+  const computed: string[] = [];
+  const issues: core.$ZodIssue[] = [];
+  // dotted paths of the fields being computed, innermost last
+  const stack: string[] = [];
+
+  const evaluate = (field: ComputedField) => {
+    const key = field.path.join('.');
+
+    if (done.has(key)) {
+      return;
+    }
+
+    if (stack.includes(key)) {
+      throw new CircularComputedError([...stack.slice(stack.indexOf(key)), key]);
+    }
+
+    const parent = field.path.slice(0, -1).reduce<any>((value, segment) => value[segment], data);
+    const name = field.path[field.path.length - 1] as string;
+
+    stack.push(key);
+
+    try {
+      if (!field.metadata.fallback || parent[name] === undefined) {
+        parent[name] = unwrap(field.metadata.compute(view(data, [])));
+        computed.push(key);
+      }
+    } finally {
+      stack.pop();
+    }
+
+    done.add(key);
+  };
+
+  // reading a computed field through the view computes it first
+  const view = (target: Record<string, unknown>, path: string[]): Record<string, unknown> =>
+    new Proxy(target, {
+      get(object, prop, receiver) {
+        if (typeof prop !== 'string') {
+          return Reflect.get(object, prop, receiver);
+        }
+
+        const field = byPath.get([...path, prop].join('.'));
+
+        if (field) {
+          evaluate(field);
+        }
+
+        const value = Reflect.get(object, prop, receiver);
+
+        return isPlainObject(value) ? view(value, [...path, prop]) : value;
+      },
+    });
+
+  // sections returned through the view, e.g. `(config) => config.database`, are stored as copies without it;
+  // copying reads through the view, so computed fields of the section are computed first
+  const unwrap = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.map(unwrap);
+    }
+
+    return isPlainObject(value)
+      ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, unwrap(item)]))
+      : value;
+  };
+
+  for (const field of fields) {
+    try {
+      evaluate(field);
+    } catch (error) {
+      if (error instanceof CircularComputedError) {
+        issues.push({
+          code: 'custom',
+          path: field.path,
+          message: `Circular reference between computed fields: ${error.cycle.join(' -> ')}`,
+        });
+        // the other fields of the cycle are not reported again
+        error.cycle.forEach((key) => done.add(key));
+      } else {
+        const reason = error instanceof Error ? error.message : String(error);
+
+        issues.push({ code: 'custom', path: field.path, message: `Cannot compute ${field.path.join('.')}: ${reason}` });
+        done.add(field.path.join('.'));
+      }
+    }
+  }
+
+  return { computed, issues };
+};
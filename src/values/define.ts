@@ -1,112 +1,821 @@
-import { ZodObject, object, type ZodRawShape, type ZodType, type infer as ZodInfer } from 'zod';
-import { _envMetadata } from './env-metadata.js';
+import {
+  ZodObject,
+  object,
+  type core,
+  type ZodRawShape,
+  type ZodSafeParseResult,
+  type ZodType,
+  type infer as ZodInfer,
+  type output,
+} from 'zod';
+import { parseArgv, toFlagName, type ArgvFlag } from '../loaders/argv.js';
+import { applyComputed, computed, isAlwaysComputed } from './computed.js';
+import { changedPaths } from './diff.js';
+import {
+  findEnvMetadata,
+  findMergeMetadata,
+  findProfileMetadata,
+  findRecordMetadata,
+  findUnionMetadata,
+  isNullable,
+  unwrapSchema,
+  type EnvMetadata,
+  type RecordMetadata,
+  type UnionMetadata,
+} from './env-metadata.js';
+import { type EnvParser } from './env-types.js';
+import { type ConfigIssue, ZodConfError } from './errors.js';
+import { createInterpolator, InterpolationError } from './interpolate.js';
+import { bigintReplacer } from './json.js';
+import {
+  enterBranch,
+  enterObject,
+  createArgvBinding,
+  enterRecordEntry,
+  findRecordSegment,
+  fromEnvSegment,
+  resolveBinding,
+  rootScope,
+  toEnvSegment,
+  type KeyScope,
+} from './keys.js';
+import { mergeValues, type MergeStrategy } from './merge.js';
+import { coerceEnvValue, isBooleanToken, isUnsetValue, ParseError, type ParseOptions } from './parsing.js';
+import { getAtPath, isWithinPath } from './paths.js';
+import { applyRules, createRule, type ConfigRule, type RefineOptions } from './rules.js';
+import { didYouMean } from './suggest.js';
 
 type Env = Record<string, string | undefined>;
 
-export type EnvLoader = { env: Env; values?: never | undefined };
-export type ValuesLoader = { values: Record<string, unknown>; env?: never | undefined };
-export type Loader = EnvLoader | ValuesLoader;
+// optional name shown in the sources report, and the file the loader was read from (mentioned in issues)
+type LoaderInfo = { name?: string; file?: string };
+
+export type EnvLoader = { env: Env; values?: never | undefined; argv?: never | undefined } & LoaderInfo;
+export type ValuesLoader = {
+  values: Record<string, unknown>;
+  env?: never | undefined;
+  argv?: never | undefined;
+} & LoaderInfo;
+// command line arguments without the executable and script, e.g. `process.argv.slice(2)`
+export type ArgvLoader = { argv: readonly string[]; env?: never | undefined; values?: never | undefined } & LoaderInfo;
+export type Loader = EnvLoader | ValuesLoader | ArgvLoader;
+
+/**
+ * Non-fatal finding reported while loading, e.g. use of a deprecated env var.
+ */
+export type ConfigWarning = {
+  code: 'deprecated_env';
+  // dotted path of the affected field
+  path: string;
+  // deprecated env var that supplied the value and the one to use instead
+  key: string;
+  replacement: string;
+  message: string;
+};
+
+/**
+ * Options accepted after the loaders by `load()`, `safeLoad()` and `loadWithSources()`.
+ */
+export type LoadOptions = {
+  // receives warnings, which are dropped without it
+  onWarning?: (warning: ConfigWarning) => void;
+  // active profile, selects the values set with `profileDefaults()`
+  profile?: string;
+  // expand `${VAR}` references in strings from `values` loaders against the env loaders,
+  // `{ env: true }` also expands references inside env values
+  interpolate?: boolean | { env?: boolean };
+  // report keys of `values` loaders that are not in the schema, and env vars starting with the `envPrefix`
+  // of `define()` (or the given prefixes) that are not bound to any field
+  strict?: boolean | { envPrefix: string | string[] };
+};
+
+export type ProfileOptions = LoadOptions & {
+  // directory of the config files, defaults to the working directory
+  dir?: string;
+  // file name without profile and extension, defaults to `config`
+  basename?: string;
+  // env applied on top of the files, defaults to `process.env`
+  env?: Env;
+};
+
+export type WatchOptions = LoadOptions & {
+  // receives errors of reloads and errors thrown by `onChange`, the last good configuration is kept;
+  // without it they are dropped
+  onError?: (error: Error) => void;
+  // polling interval of watched files in milliseconds, defaults to 1000
+  interval?: number;
+  // keep the process running while files are watched, defaults to true
+  persistent?: boolean;
+};
+
+/**
+ * Passed to the `watch()` callback together with the new configuration.
+ */
+export type ConfigChange<C> = {
+  previous: C;
+  // dotted paths of the values that changed
+  changedPaths: string[];
+};
+
+/**
+ * Handle returned by `watch()`.
+ */
+export type ConfigWatcher<C> = {
+  // last configuration that passed validation
+  readonly config: C;
+  // reloads all loaders now, returns whether the configuration changed
+  reload(): boolean;
+  // stops watching files
+  close(): void;
+};
+
+// config file extensions tried for every layer of a profile, in this order
+const PROFILE_EXTENSIONS = ['json', 'yaml', 'yml', 'toml'];
+
+// loaders, optionally followed by load options
+export type LoadArgs = [...Loader[], Loader] | [...Loader[], Loader, LoadOptions];
+
+/**
+ * Loader resolved by `loadAsync()`: a loader, a promise of one, or a function returning either,
+ * e.g. fetching secrets from a secrets manager.
+ */
+export type AsyncLoader = Loader | PromiseLike<Loader> | (() => Loader | PromiseLike<Loader>);
+
+// async loaders, optionally followed by load options
+export type LoadAsyncArgs = [...AsyncLoader[], AsyncLoader] | [...AsyncLoader[], AsyncLoader, LoadOptions];
+
+const isLoader = (arg: Loader | LoadOptions): arg is Loader => 'env' in arg || 'values' in arg || 'argv' in arg;
+
+const isAsyncLoader = (arg: AsyncLoader | LoadOptions): arg is AsyncLoader =>
+  typeof arg === 'function' || 'then' in arg || isLoader(arg);
+
+const splitLoadArgs = (args: LoadArgs): { loaders: Loader[]; options: LoadOptions } => {
+  const last = args[args.length - 1];
+
+  if (last && !isLoader(last)) {
+    return { loaders: args.slice(0, -1) as Loader[], options: last };
+  }
+
+  return { loaders: args as Loader[], options: {} };
+};
+
+const splitLoadAsyncArgs = (args: LoadAsyncArgs): { loaders: AsyncLoader[]; options: LoadOptions } => {
+  const last = args[args.length - 1];
+
+  if (last && !isAsyncLoader(last)) {
+    return { loaders: args.slice(0, -1) as AsyncLoader[], options: last };
+  }
+
+  return { loaders: args as AsyncLoader[], options: {} };
+};
+
+/**
+ * File access of a schema, used for `<KEY>_FILE` variables, by `loadProfile()` and by `watch()`.
+ * The core does not depend on Node, `zc.define()` passes the `node:fs` implementation of `src/loaders/files.ts`.
+ */
+export type FileSystem = {
+  // contents of a text file, throws if it cannot be read
+  readFile(path: string): string;
+  // `values` loader of a config file, parsed by its extension; empty if the file does not exist
+  loadConfigFile(path: string): ValuesLoader;
+  // calls the listener when the file changes, the returned function stops watching
+  watchFile(path: string, options: { interval: number; persistent: boolean }, listener: () => void): () => void;
+};
+
+export type DefineOptions = {
+  // file access, without it `<KEY>_FILE` variables cannot be read, `loadProfile()` throws
+  // and `watch()` does not watch files
+  fs?: FileSystem;
+  // prefix of env keys derived with `autoEnv`, e.g. `APP_`
+  envPrefix?: string;
+  // derive env keys from field paths for fields without an explicit `env()` binding
+  autoEnv?: boolean;
+  // how env strings are parsed, fields can override it with `.parsing()`
+  parsing?: ParseOptions;
+  // how values of a field from several loaders are combined, fields can override it with `merge()`
+  merge?: MergeStrategy;
+};
+
+/**
+ * Describes where a configuration value came from: the winning loader (by its index in the `load()` arguments),
+ * the profile defaults, the schema default or a `computed()` field.
+ */
+export type ValueSource =
+  | { type: 'env'; loader: number; name?: string; key: string }
+  | { type: 'values'; loader: number; name?: string }
+  | { type: 'argv'; loader: number; name?: string; flag: string }
+  | { type: 'profile'; profile: string }
+  | { type: 'computed' }
+  | { type: 'default' };
+
+// value resolved from an env or argv loader, together with the variable (or flag) and raw string it was read from;
+// the value is undefined if the raw string could not be parsed, or if it was the unset token (`cleared`)
+type EnvValue = { key: string; raw: string | undefined; value: unknown; cleared?: boolean };
+
+// state collected while building the input object
+type LoadContext = {
+  // issues found before validation, e.g. unparseable env values
+  issues: core.$ZodIssue[];
+  // dotted paths of all leaf fields and the sources of those that were loaded
+  fields: string[];
+  sources: Record<string, ValueSource>;
+  // env bindings and supplied values (raw strings for env) of leaf fields, by dotted path, for error reports
+  bindings: Record<string, EnvMetadata>;
+  inputs: Record<string, unknown>;
+  // files read through <KEY>_FILE variables
+  files: string[];
+  warnings: ConfigWarning[];
+  profile: string | undefined;
+  interpolation: { expand: (template: string) => string; env: boolean } | undefined;
+  strict: boolean;
+  // all env vars bound to a field, including fallback, deprecated and <KEY>_FILE names
+  envKeys: Set<string>;
+  // flag names of all leaf fields, without the leading dashes
+  flags: Set<string>;
+};
+
+const REDACTED = '[REDACTED]';
+
+// empty state for a load with the given settings
+const createContext = (settings: Pick<LoadContext, 'profile' | 'interpolation'>, strict: boolean): LoadContext => ({
+  issues: [],
+  fields: [],
+  sources: {},
+  bindings: {},
+  inputs: {},
+  files: [],
+  warnings: [],
+  profile: settings.profile,
+  interpolation: settings.interpolation,
+  strict,
+  envKeys: new Set(),
+  flags: new Set(),
+});
+
+// for nested objects: drill into values loaders, pass env loaders as-is
+const nestLoaders = (loaders: Loader[], key: string): Loader[] =>
+  loaders.map((loader) => {
+    if ('values' in loader && loader.values) {
+      const nested = loader.values[key];
+
+      return { ...loader, values: nested && typeof nested === 'object' ? nested : {} } as ValuesLoader;
+    }
+
+    return loader;
+  });
+
+// command lines are parsed once per argv array
+const parsedArgv = new WeakMap<readonly string[], ArgvFlag[]>();
+
+const getArgvFlags = (argv: readonly string[]): ArgvFlag[] => {
+  const flags = parsedArgv.get(argv) ?? parseArgv(argv);
+
+  parsedArgv.set(argv, flags);
+
+  return flags;
+};
+
+const createSource = <S extends ValueSource>(source: S, loader: Loader): S =>
+  loader.name === undefined ? source : { ...source, name: loader.name };
+
+// read a value from the file the variable points to, without the trailing newlines most editors add
+const readEnvFile = (
+  fs: FileSystem | undefined,
+  key: string,
+  file: string,
+  path: PropertyKey[],
+  context: LoadContext,
+): string | undefined => {
+  context.files.push(file);
+
+  try {
+    if (!fs) {
+      throw new Error('no file system was passed to define()');
+    }
+
+    return fs.readFile(file).replace(/(\r?\n)+$/, '');
+  } catch (error) {
+    context.issues.push({
+      code: 'custom',
+      path,
+      message: `Cannot read file ${file} from ${key}: ${(error as Error).message}`,
+    });
+
+    return undefined;
+  }
+};
+
+// expand references in strings, also inside arrays and objects; unresolved references become issues
+const interpolateValue = (value: unknown, path: PropertyKey[], context: LoadContext): unknown => {
+  const interpolation = context.interpolation;
+
+  if (!interpolation) {
+    return value;
+  }
+
+  const expandDeep = (value: unknown): unknown => {
+    if (typeof value === 'string') {
+      return interpolation.expand(value);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(expandDeep);
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, expandDeep(item)]));
+    }
+
+    return value;
+  };
+
+  try {
+    return expandDeep(value);
+  } catch (error) {
+    if (!(error instanceof InterpolationError)) {
+      throw error;
+    }
+
+    context.issues.push({ code: 'custom', path, message: error.message });
+
+    return undefined;
+  }
+};
+
+// references resolve against all env loaders, later loaders override earlier ones
+const createInterpolation = (loaders: Loader[], options: true | { env?: boolean }) => {
+  const env: Env = {};
+
+  for (const loader of loaders) {
+    if ('env' in loader && loader.env) {
+      for (const [key, value] of Object.entries(loader.env)) {
+        if (value !== undefined) {
+          env[key] = value;
+        }
+      }
+    }
+  }
+
+  const recursive = options !== true && !!options.env;
+
+  return { expand: createInterpolator(env, recursive), env: recursive };
+};
+
+// drop the input of issues about secret fields; messages are left alone, except those of env types quoting the value
+const redactIssue = (issue: core.$ZodIssue, context: LoadContext): core.$ZodIssue => {
+  const field = context.fields.find((field) => isWithinPath(issue.path, field.split('.')));
+
+  if (field !== undefined && context.bindings[field]?.secret) {
+    const { input: _input, ...rest } = issue;
+    const secretMessage = rest.code === 'custom' ? rest.params?.['secretMessage'] : undefined;
+
+    return (typeof secretMessage === 'string' ? { ...rest, message: secretMessage } : rest) as core.$ZodIssue;
+  }
+
+  return issue;
+};
+
+// name the env var, source, value and expectation behind an issue
+const describeIssue = (issue: core.$ZodIssue, context: LoadContext): ConfigIssue => {
+  // issues of array items or json values belong to the leaf field containing them
+  const field = context.fields.find((field) => isWithinPath(issue.path, field.split('.')));
+  const binding = field === undefined ? undefined : context.bindings[field];
+  const source = field === undefined ? undefined : context.sources[field];
+  const input = field === undefined ? undefined : context.inputs[field];
+  const detail: ConfigIssue = { path: issue.path.join('.'), code: issue.code, message: issue.message };
+
+  if (source?.type === 'env') {
+    detail.key = source.key;
+  } else if (binding) {
+    detail.key = binding.key;
+  }
+
+  if (source) {
+    detail.source = source;
+  }
+
+  if (input !== undefined) {
+    detail.value = binding?.secret
+      ? REDACTED
+      : typeof input === 'bigint'
+        ? String(input)
+        : JSON.stringify(input, bigintReplacer);
+  }
+
+  if (issue.code === 'invalid_value') {
+    detail.expected = issue.values.map((value) => String(value)).join('|');
+  } else if (binding) {
+    detail.expected = binding.type;
+  } else if (issue.code === 'invalid_type') {
+    detail.expected = issue.expected;
+  }
+
+  return detail;
+};
+
+// copy the values, masking those bound to secret env vars
+const redactValues = (shape: ZodRawShape, values: Record<string, unknown>): Record<string, unknown> => {
+  const result = { ...values };
+
+  for (const key in shape) {
+    const schema = shape[key] as ZodType;
+    const value = result[key];
+
+    const union = findUnionMetadata(schema);
+    const record = findRecordMetadata(schema);
+
+    if (schema instanceof ZodObject && !findEnvMetadata(schema)) {
+      if (value && typeof value === 'object') {
+        result[key] = redactValues(schema.shape, value as Record<string, unknown>);
+      }
+    } else if (record) {
+      if (value && typeof value === 'object') {
+        result[key] = Object.fromEntries(
+          Object.entries(value).map(([name, entry]) => [name, redactValues(record.entry.shape, entry)]),
+        );
+      }
+    } else if (union) {
+      const branch = value && typeof value === 'object' ? union.branches[(value as any)[union.property]] : undefined;
+
+      if (branch) {
+        result[key] = redactValues(branch.shape, value as Record<string, unknown>);
+      }
+    } else if (findEnvMetadata(schema)?.secret && value !== undefined) {
+      result[key] = REDACTED;
+    }
+  }
+
+  return result;
+};
+
+// shapes of all schemas, so that the docs generators can walk them while `shape` stays private
+const shapes = new WeakMap<ZodConfSchema<any>, ZodRawShape>();
+
+/**
+ * Returns the shape a schema was defined with.
+ * Internal to the docs generators and the CLI, not exported from the package.
+ */
+export const getShape = <T extends ZodRawShape>(schema: ZodConfSchema<T>): T => shapes.get(schema) as T;
 
 export class ZodConfSchema<T extends ZodRawShape> {
   constructor(
     private shape: T,
     private schema: ZodObject<T>,
-  ) {}
+    readonly options: DefineOptions = {},
+    // cross-field rules added with `refine()`
+    private rules: ConfigRule<ZodInfer<ZodObject<T>>>[] = [],
+  ) {
+    shapes.set(this, shape);
+  }
 
-  private resolveEnvValue(schema: ZodType, env: Env): unknown {
-    let currentSchema = schema;
-    let envKey: string | undefined;
-    let envType: string | undefined;
+  private resolveEnvValue(
+    metadata: EnvMetadata,
+    env: Env,
+    path: PropertyKey[],
+    context: LoadContext,
+  ): EnvValue | undefined {
+    const keys = [metadata.key, ...(metadata.fallbackKeys ?? []), ...(metadata.deprecatedKeys ?? [])];
+    // with `fromFile()` each key may also point to a file through <KEY>_FILE, e.g. a docker secret
+    const candidates = keys.flatMap((name) => [
+      { name, key: name, file: false },
+      ...(metadata.fromFile ? [{ name, key: `${name}_FILE`, file: true }] : []),
+    ]);
+    // the first key that is set wins
+    const candidate = candidates.find(({ key }) => env[key] !== undefined);
 
-    // traverse wrapped schemas to find metadata
-    while (currentSchema && !envKey) {
-      const metadata = _envMetadata.get(currentSchema);
+    if (!candidate) {
+      return undefined;
+    }
 
-      if (metadata) {
-        // found metadata -> use it
-        envKey = metadata.key;
-        envType = metadata.type;
-        break;
-      }
+    const { name, key, file } = candidate;
+    const content = file ? readEnvFile(this.options.fs, key, env[key] as string, path, context) : env[key];
+    const raw =
+      context.interpolation?.env && content !== undefined
+        ? (interpolateValue(content, path, context) as string | undefined)
+        : content;
+    const { unset } = { ...this.options.parsing, ...metadata.parsing };
+    // the unset token clears the value set by earlier loaders
+    const cleared = unset !== undefined && raw?.trim() === unset;
+    const issueCount = context.issues.length;
+    const parsed = raw === undefined || cleared ? undefined : this.parseEnvValue(metadata, key, raw, path, context);
+    // a value that could not be parsed is still reported as the source of the field's issue
+    const failed = context.issues.length > issueCount;
+
+    if ((parsed !== undefined || cleared) && metadata.deprecatedKeys?.includes(name)) {
+      context.warnings.push({
+        code: 'deprecated_env',
+        path: path.join('.'),
+        key,
+        replacement: metadata.key,
+        message: `Environment variable ${key} is deprecated, use ${metadata.key} instead`,
+      });
+    }
 
-      // check if this is a wrapped schema (default, optional, etc.)
-      const def = (currentSchema as any)._def;
+    if (cleared) {
+      return { key, raw, value: undefined, cleared };
+    }
 
-      if (def?.innerType) {
-        // zod wrappers like optional, default, nullable, etc.
-        currentSchema = def.innerType;
-      } else if (def?.schema) {
-        // zod effects
-        currentSchema = def.schema;
-      } else {
-        // end of the chain, no metadata found
-        break;
+    return parsed === undefined && !failed ? undefined : { key, raw, value: parsed };
+  }
+
+  private resolveArgvValue(
+    schema: ZodType,
+    binding: EnvMetadata | undefined,
+    flags: ArgvFlag[],
+    path: PropertyKey[],
+    context: LoadContext,
+  ): EnvValue | undefined {
+    const name = toFlagName(path.map(String));
+    const matches = flags.filter((flag) => flag.name === name || flag.name === `no-${name}`);
+    const last = matches[matches.length - 1];
+
+    if (!last) {
+      return undefined;
+    }
+
+    const key = `--${name}`;
+    const metadata = binding ?? createArgvBinding(schema, key);
+    const negated = last.name !== name;
+
+    if (metadata.type === 'boolean') {
+      const options = { ...this.options.parsing, ...metadata.parsing };
+
+      // a following argument is only taken as the value if it is a boolean token, e.g. `--debug false`
+      if (negated || last.value === undefined || (!last.attached && !isBooleanToken(last.value, options))) {
+        return { key, raw: String(!negated), value: !negated };
       }
+    } else if (negated) {
+      // `--no-<flag>` clears other fields, like the unset token does in env
+      return { key, raw: undefined, value: undefined, cleared: true };
     }
 
-    if (!envKey) {
+    // repeated flags add items to arrays, otherwise the last one wins
+    const occurrences = metadata.type === 'array' ? matches.filter((flag) => flag.name === name) : [last];
+
+    if (occurrences.some((flag) => flag.value === undefined)) {
+      context.issues.push({ code: 'custom', path, message: `Missing value for ${key}` });
+
+      return { key, raw: undefined, value: undefined };
+    }
+
+    const raw = occurrences.map((flag) => flag.value).join(metadata.separator ?? ',');
+    const issueCount = context.issues.length;
+    const parsed = this.parseEnvValue(metadata, key, raw, path, context);
+    const failed = context.issues.length > issueCount;
+
+    if (parsed === undefined && !failed) {
+      // types without a conversion are left to the schema
+      return binding ? undefined : { key, raw, value: raw };
+    }
+
+    return { key, raw, value: parsed };
+  }
+
+  private parseCustomValue(
+    parse: EnvParser,
+    key: string | undefined,
+    value: string,
+    path: PropertyKey[],
+    secret: boolean | undefined,
+    context: LoadContext,
+  ): unknown {
+    const messages: string[] = [];
+    let parsed: unknown;
+
+    try {
+      parsed = parse(value, { key, path: path.join('.'), addIssue: (message) => messages.push(message) });
+    } catch (error) {
+      messages.push(error instanceof Error ? error.message : String(error));
+    }
+
+    // parser messages may quote the value, so secrets get a fixed message instead
+    (secret && messages.length ? ['Invalid value'] : messages).forEach((message) =>
+      context.issues.push({ code: 'custom', path, message: key ? `${message} in ${key}` : message }),
+    );
+
+    return messages.length ? undefined : parsed;
+  }
+
+  private parseEnvValue(
+    metadata: EnvMetadata,
+    key: string,
+    value: string | undefined,
+    path: PropertyKey[],
+    context: LoadContext,
+  ): unknown {
+    const options = { ...this.options.parsing, ...metadata.parsing };
+
+    if (value === undefined || isUnsetValue(metadata.type, value, options)) {
       return undefined;
     }
 
-    const value = env[envKey];
+    if (metadata.parse) {
+      return this.parseCustomValue(metadata.parse, key, value, path, metadata.secret, context);
+    }
 
-    switch (envType) {
-      case 'string':
-        return value;
-      case 'number':
-        return value ? Number(value) : undefined;
-      case 'boolean':
-        return value === 'true' ? true : value === 'false' ? false : undefined;
-      case 'enum': {
-        const numValue = Number(value);
+    if (metadata.type === 'array') {
+      const itemType = metadata.item ? unwrapSchema(metadata.item)._def.type : undefined;
 
-        // guess if enum is number-based
-        if (value && !isNaN(numValue) && Number.isInteger(numValue)) {
-          return numValue;
-        }
+      return value
+        .split(metadata.separator ?? ',')
+        .map((item) => item.trim())
+        .filter((item) => item !== '')
+        .map((item) => {
+          try {
+            return coerceEnvValue(itemType, item, options) ?? item;
+          } catch (error) {
+            // leave invalid items to the item schema to report
+            if (error instanceof ParseError) {
+              return item;
+            }
+
+            throw error;
+          }
+        });
+    }
+
+    if (metadata.type === 'json') {
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        // the parser message may quote the input, so only the position is kept
+        const position = /at position (\d+)/.exec((error as Error).message)?.[1];
+
+        context.issues.push({
+          code: 'custom',
+          path,
+          message: `Invalid JSON in ${key}${position === undefined ? '' : ` at position ${position}`}`,
+        });
 
-        return value;
-      }
-      default:
         return undefined;
+      }
+    }
+
+    try {
+      return coerceEnvValue(metadata.type, value, options);
+    } catch (error) {
+      if (!(error instanceof ParseError)) {
+        throw error;
+      }
+
+      const input = metadata.secret ? '' : ` "${value}"`;
+      const expected = error.expected ? `, expected ${error.expected}` : '';
+
+      context.issues.push({ code: 'custom', path, message: `Invalid ${error.type}${input} in ${key}${expected}` });
+
+      return undefined;
     }
   }
 
-  private loadValue(shape: ZodRawShape, loaders: Loader[]): any {
+  private loadValue(
+    shape: ZodRawShape,
+    loaders: Loader[],
+    path: PropertyKey[],
+    scope: KeyScope,
+    context: LoadContext,
+  ): any {
     const input: any = {};
 
     for (const key in shape) {
       const schema = shape[key];
 
-      if (schema instanceof ZodObject) {
-        // for nested objects: drill into values loaders, pass env loaders as-is
-        const subLoaders = loaders.map((loader) => {
-          if ('values' in loader && loader.values) {
-            const nested = loader.values[key];
+      // computed after validation, whatever the loaders supply
+      if (isAlwaysComputed(schema as ZodType)) {
+        continue;
+      }
 
-            return { values: nested && typeof nested === 'object' ? nested : {} } as ValuesLoader;
-          }
+      const union = findUnionMetadata(schema as ZodType);
+      const record = findRecordMetadata(schema as ZodType);
 
-          return loader;
-        });
+      if (schema instanceof ZodObject && !findEnvMetadata(schema)) {
+        const subLoaders = nestLoaders(loaders, key);
+
+        input[key] = this.loadValue(schema.shape, subLoaders, [...path, key], enterObject(scope, key, schema), context);
+      } else if (record) {
+        input[key] = this.loadRecord(record, nestLoaders(loaders, key), [...path, key], scope, context);
+      } else if (union) {
+        const subLoaders = nestLoaders(loaders, key);
 
-        input[key] = this.loadValue(schema.shape, subLoaders);
+        input[key] = this.loadUnion(
+          union,
+          subLoaders,
+          [...path, key],
+          enterObject(scope, key, schema as ZodType),
+          context,
+        );
       } else {
+        const fieldPath = [...path, key];
+        const field = fieldPath.join('.');
+
+        const binding = resolveBinding(schema as ZodType, key, scope);
+        const secret = binding?.secret;
+        const strategy = findMergeMetadata(schema as ZodType)?.strategy ?? this.options.merge;
+
+        if (binding) {
+          context.bindings[field] = binding;
+          [binding.key, ...(binding.fallbackKeys ?? []), ...(binding.deprecatedKeys ?? [])].forEach((name) => {
+            context.envKeys.add(name);
+
+            if (binding.fromFile) {
+              context.envKeys.add(`${name}_FILE`);
+            }
+          });
+        }
+
+        // `null` from `values` or the unset token in env clears what earlier loaders set: nullable fields become null,
+        // optional ones are unset again so that defaults apply, required ones keep the null for validation to report
+        const clear = (source: ValueSource) => {
+          if (isNullable(schema as ZodType) || (schema as ZodType)._zod.optin !== 'optional') {
+            input[key] = null;
+            context.inputs[field] = null;
+            context.sources[field] = source;
+          } else {
+            delete input[key];
+            delete context.inputs[field];
+            delete context.sources[field];
+          }
+        };
+
+        // env and argv values are applied the same way
+        const applyResolved = (resolved: EnvValue, source: ValueSource) => {
+          if (resolved.cleared) {
+            clear(source);
+
+            return;
+          }
+
+          if (resolved.value !== undefined) {
+            input[key] = mergeValues(input[key], resolved.value, strategy);
+          }
+
+          context.inputs[field] = resolved.raw;
+          context.sources[field] = source;
+        };
+
+        context.fields.push(field);
+        context.flags.add(toFlagName(fieldPath.map(String)));
+
+        // profile defaults come first, any loader overrides them
+        const profile = context.profile;
+
+        const profileDefaults = findProfileMetadata(schema as ZodType)?.defaults;
+
+        if (profile !== undefined && profileDefaults && Object.hasOwn(profileDefaults, profile)) {
+          input[key] = profileDefaults[profile];
+          context.inputs[field] = input[key];
+          context.sources[field] = { type: 'profile', profile };
+        }
+
         // try each loader in order, later overrides earlier
-        for (const loader of loaders) {
+        loaders.forEach((loader, index) => {
           if ('values' in loader && loader.values) {
-            const value = loader.values[key];
+            const value = interpolateValue(loader.values[key], fieldPath, context);
+
+            if (value === null) {
+              clear(createSource({ type: 'values', loader: index }, loader));
+            } else if (value !== undefined) {
+              // custom types parse strings from files the same way as env strings
+              const parsed =
+                binding?.parse && typeof value === 'string'
+                  ? this.parseCustomValue(binding.parse, undefined, value, fieldPath, secret, context)
+                  : value;
 
-            if (value !== undefined) {
-              input[key] = value;
+              input[key] = mergeValues(input[key], parsed, strategy);
+              context.inputs[field] = value;
+              context.sources[field] = createSource({ type: 'values', loader: index }, loader);
             }
-          } else if ('env' in loader && loader.env) {
-            const value = this.resolveEnvValue(schema as ZodType, loader.env);
+          } else if ('env' in loader && loader.env && binding) {
+            const resolved = this.resolveEnvValue(binding, loader.env, fieldPath, context);
 
-            if (value !== undefined) {
-              input[key] = value;
+            if (resolved) {
+              applyResolved(resolved, createSource({ type: 'env', loader: index, key: resolved.key }, loader));
+            }
+          } else if ('argv' in loader && loader.argv) {
+            const flags = getArgvFlags(loader.argv);
+            const resolved = this.resolveArgvValue(schema as ZodType, binding, flags, fieldPath, context);
+
+            if (resolved) {
+              applyResolved(resolved, createSource({ type: 'argv', loader: index, flag: resolved.key }, loader));
             }
           }
+        });
+      }
+    }
+
+    if (context.strict) {
+      const known = Object.keys(shape).filter((key) => !isAlwaysComputed(shape[key] as ZodType));
+
+      for (const loader of loaders) {
+        if ('values' in loader && loader.values) {
+          for (const key of Object.keys(loader.values).filter((key) => !known.includes(key))) {
+            context.issues.push({
+              code: 'unrecognized_keys',
+              keys: [key],
+              path,
+              message:
+                `Unrecognized key "${key}"${didYouMean(key, known)}` + (loader.file ? ` (in ${loader.file})` : ''),
+            });
+          }
         }
       }
     }
@@ -114,13 +823,250 @@ export class ZodConfSchema<T extends ZodRawShape> {
     return input;
   }
 
+  // entries are the keys of values loaders and the names found in env keys matching the pattern
+  private loadRecord(
+    record: RecordMetadata,
+    loaders: Loader[],
+    path: PropertyKey[],
+    scope: KeyScope,
+    context: LoadContext,
+  ): any {
+    // env key segment of each entry
+    const segments = new Map<string, string>();
+
+    for (const loader of loaders) {
+      if ('values' in loader && loader.values) {
+        Object.keys(loader.values).forEach((name) => segments.set(name, segments.get(name) ?? toEnvSegment(name)));
+      }
+    }
+
+    // env keys name the entries of values loaders by their segment, e.g. `EMAIL_DIGEST` for `email-digest`,
+    // only entries found in env alone are named after it
+    const names = new Map([...segments].map(([name, segment]) => [segment, name]));
+
+    for (const loader of loaders) {
+      if ('env' in loader && loader.env) {
+        for (const key of Object.keys(loader.env)) {
+          const segment = findRecordSegment(key, record, scope);
+
+          if (segment !== undefined && !names.has(segment)) {
+            names.set(segment, fromEnvSegment(segment));
+            segments.set(fromEnvSegment(segment), segment);
+          }
+        }
+      }
+    }
+
+    // flags of entry fields, e.g. `--queues.email-digest.concurrency`, are matched by the kebab-case entry name
+    const flagPrefix = `${toFlagName(path.map(String))}.`;
+    const flagNames = new Map([...segments.keys()].map((name) => [toFlagName([name]), name]));
+
+    for (const loader of loaders) {
+      if ('argv' in loader && loader.argv) {
+        for (const flag of getArgvFlags(loader.argv)) {
+          const name = flag.name.startsWith(`no-${flagPrefix}`) ? flag.name.slice(3) : flag.name;
+          const [entry, ...field] = name.startsWith(flagPrefix) ? name.slice(flagPrefix.length).split('.') : [];
+
+          if (entry && field.length && !flagNames.has(entry)) {
+            const camelCase = fromEnvSegment(entry.replace(/-/g, '_'));
+
+            flagNames.set(entry, camelCase);
+            segments.set(camelCase, toEnvSegment(camelCase));
+          }
+        }
+      }
+    }
+
+    const input: any = {};
+
+    for (const [name, segment] of segments) {
+      input[name] = this.loadValue(
+        record.entry.shape,
+        nestLoaders(loaders, name),
+        [...path, name],
+        enterRecordEntry(scope, record, segment),
+        context,
+      );
+    }
+
+    // like a section without a discriminator, a record without entries is not supplied, so optional records stay unset
+    return segments.size ? input : undefined;
+  }
+
+  // load the discriminator first, then the discriminator together with the fields of the selected branch
+  private loadUnion(
+    union: UnionMetadata,
+    loaders: Loader[],
+    path: PropertyKey[],
+    scope: KeyScope,
+    context: LoadContext,
+  ): any {
+    const discriminatorShape = { [union.property]: union.discriminator };
+    // probing uses a scratch context, so that the discriminator is recorded once, with the branch
+    const probe = this.loadValue(discriminatorShape, loaders, path, scope, createContext(context, false));
+    const selected = probe[union.property];
+    const branch =
+      typeof selected === 'string' && Object.hasOwn(union.branches, selected) ? union.branches[selected] : undefined;
+
+    if (context.strict) {
+      // env vars and flags of the other branches are known too, they are just not used
+      for (const other of Object.values(union.branches)) {
+        const scratch = createContext(context, true);
+
+        this.loadValue(other.shape, loaders, path, enterBranch(scope, other), scratch);
+        scratch.envKeys.forEach((key) => context.envKeys.add(key));
+        scratch.flags.forEach((flag) => context.flags.add(flag));
+      }
+    }
+
+    if (!branch) {
+      // without a branch there is nothing else to load, validation reports the missing or unknown discriminator
+      const value = this.loadValue(discriminatorShape, loaders, path, scope, context);
+
+      return value[union.property] === undefined ? undefined : value;
+    }
+
+    return this.loadValue(
+      { ...discriminatorShape, ...branch.shape },
+      loaders,
+      path,
+      enterBranch(scope, branch),
+      context,
+    );
+  }
+
+  // env vars that look like they belong to this schema but are not bound to any field
+  private checkUnknownEnv(loaders: Loader[], options: LoadOptions, context: LoadContext) {
+    const strict = options.strict;
+    const prefixes = typeof strict === 'object' ? [strict.envPrefix].flat() : [this.options.envPrefix ?? []].flat();
+    const reported = new Set<string>();
+
+    for (const loader of loaders) {
+      if (!('env' in loader) || !loader.env) {
+        continue;
+      }
+
+      for (const key of Object.keys(loader.env)) {
+        if (prefixes.some((prefix) => key.startsWith(prefix)) && !context.envKeys.has(key) && !reported.has(key)) {
+          reported.add(key);
+          context.issues.push({
+            code: 'unrecognized_keys',
+            keys: [key],
+            path: [],
+            message: `Unrecognized environment variable "${key}"${didYouMean(key, context.envKeys)}`,
+          });
+        }
+      }
+    }
+  }
+
+  // flags that do not match any field
+  private checkUnknownFlags(loaders: Loader[], context: LoadContext) {
+    const known = [...context.flags].map((flag) => `--${flag}`);
+    const reported = new Set<string>();
+
+    for (const loader of loaders) {
+      if (!('argv' in loader) || !loader.argv) {
+        continue;
+      }
+
+      for (const { name } of getArgvFlags(loader.argv)) {
+        const flag = `--${name}`;
+        const negation = name.startsWith('no-') && context.flags.has(name.slice(3));
+
+        if (!context.flags.has(name) && !negation && !reported.has(flag)) {
+          reported.add(flag);
+          context.issues.push({
+            code: 'unrecognized_keys',
+            keys: [flag],
+            path: [],
+            message: `Unrecognized flag "${flag}"${didYouMean(flag, known)}`,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Adds a field derived from the validated configuration, like `computed()` but with the `config` parameter typed
+   * by this schema. Fields computed from computed fields are added by chaining.
+   *
+   * @param key - Name of the field, a field of the same name is replaced
+   * @param schema - Optional schema loaded as usual; the value is only computed when it is `undefined`
+   * @param compute - Derives the value from the whole configuration, errors it throws are reported as issues
+   * @returns A new schema with the field, the rules of this schema are kept
+   *
+   * @example
+   * ```typescript
+   * const schema = define({
+   *   host: env('HOST').string().default('localhost'),
+   *   port: env('PORT').number().default(3000),
+   * })
+   *   .computed('baseUrl', (config) => `http://${config.host}:${config.port}`)
+   *   .computed('healthUrl', (config) => new URL('/health', config.baseUrl));
+   * ```
+   */
+  computed<K extends string, R>(
+    key: K,
+    compute: (config: ZodInfer<ZodObject<T>>) => R,
+  ): ZodConfSchema<Omit<T, K> & { [P in K]: ZodType<R, R> }>;
+  computed<K extends string, S extends ZodType, R>(
+    key: K,
+    schema: S,
+    compute: (config: ZodInfer<ZodObject<T>>) => R,
+  ): ZodConfSchema<Omit<T, K> & { [P in K]: ZodType<Exclude<output<S>, undefined> | R, core.input<S>> }>;
+  computed(
+    key: string,
+    ...args: [(config: ZodInfer<ZodObject<T>>) => unknown] | [ZodType, (config: ZodInfer<ZodObject<T>>) => unknown]
+  ): ZodConfSchema<any> {
+    const field = args.length === 1 ? computed(args[0]) : computed(args[0], args[1]);
+    const shape = { ...this.shape, [key]: field };
+    // the rules read the fields of this schema, which the new one keeps; only the added field is new
+    const rules: ConfigRule<any>[] = this.rules;
+
+    return new ZodConfSchema(shape, object(shape), this.options, rules);
+  }
+
+  /**
+   * Adds a validation rule spanning several fields, checked once all fields are valid (computed fields included).
+   * Rules are not checked when a field failed, a computed one included, as the rule would see its value missing.
+   * Issues are reported at the given field paths, so error reports name the env vars to fix.
+   *
+   * @param check - Returns whether the configuration is valid, or a rule such as `requireIf()`
+   * @param options - `message` of the issue and `paths` of the fields to report it at (the whole config without)
+   * @returns A new schema with the rule, the rules of this schema are kept
+   *
+   * @example
+   * ```typescript
+   * const schema = define({
+   *   pool: object({
+   *     min: env('DB_POOL_MIN').number().default(1),
+   *     max: env('DB_POOL_MAX').number().default(10),
+   *   }),
+   * }).refine((config) => config.pool.min <= config.pool.max, {
+   *   message: 'Must not be greater than the maximum',
+   *   paths: ['pool.min'],
+   * });
+   * ```
+   */
+  refine(rule: ConfigRule<ZodInfer<ZodObject<T>>>): ZodConfSchema<T>;
+  refine(check: (config: ZodInfer<ZodObject<T>>) => boolean, options: RefineOptions): ZodConfSchema<T>;
+  refine(
+    ...args: [ConfigRule<ZodInfer<ZodObject<T>>>] | [(config: ZodInfer<ZodObject<T>>) => boolean, RefineOptions]
+  ): ZodConfSchema<T> {
+    const added = args.length === 1 ? args[0] : createRule(args[0], args[1]);
+
+    return new ZodConfSchema(this.shape, this.schema, this.options, [...this.rules, added]);
+  }
+
   /**
    * Loads and validates configuration from the provided loaders.
    * Throws a ZodError if validation fails.
    *
    * Loaders are processed left-to-right; later loaders override earlier ones.
    *
-   * @param loaders - One or more loaders: `{ env }` for environment variables, `{ values }` for plain objects
+   * @param args - One or more loaders: `{ env }` for environment variables, `{ values }` for plain objects,
+   *               `{ argv }` for command line flags, optionally followed by `LoadOptions`
    * @returns Validated configuration object
    * @throws {ZodError} If validation fails
    *
@@ -131,10 +1077,13 @@ export class ZodConfSchema<T extends ZodRawShape> {
    *
    * // yaml + env (env overrides yaml)
    * const config = schema.load({ values: parsedYaml }, { env: process.env });
+   *
+   * // with options
+   * const config = schema.load({ env: process.env }, { onWarning: (warning) => logger.warn(warning.message) });
    * ```
    */
-  load(...loaders: [Loader, ...Loader[]]): ZodInfer<ZodObject<T>> {
-    const result = this.safeLoad(...loaders);
+  load(...args: LoadArgs): ZodInfer<ZodObject<T>> {
+    const result = this.safeLoad(...args);
 
     if (!result.success) {
       throw result.error;
@@ -149,7 +1098,8 @@ export class ZodConfSchema<T extends ZodRawShape> {
    *
    * Loaders are processed left-to-right; later loaders override earlier ones.
    *
-   * @param loaders - One or more loaders: `{ env }` for environment variables, `{ values }` for plain objects
+   * @param args - One or more loaders: `{ env }` for environment variables, `{ values }` for plain objects,
+   *               `{ argv }` for command line flags, optionally followed by `LoadOptions`
    * @returns SafeParseReturnType with either { success: true, data } or { success: false, error }
    *
    * @example
@@ -163,10 +1113,403 @@ export class ZodConfSchema<T extends ZodRawShape> {
    * }
    * ```
    */
-  safeLoad(...loaders: [Loader, ...Loader[]]) {
-    const value = this.loadValue(this.shape, loaders);
+  safeLoad(...args: LoadArgs): ZodSafeParseResult<ZodInfer<ZodObject<T>>> {
+    return this.run(args).result;
+  }
+
+  /**
+   * Loads and validates configuration like `load()`, additionally reporting where each value came from.
+   * Throws a ZodError if validation fails.
+   *
+   * Sources are keyed by the dotted path of each field. Fields that were not supplied by any loader
+   * but got a value from a Zod default are reported as `{ type: 'default' }`.
+   *
+   * @param args - One or more loaders: `{ env }` for environment variables, `{ values }` for plain objects,
+   *               `{ argv }` for command line flags, optionally followed by `LoadOptions`
+   * @returns Validated configuration object and the source of each value
+   * @throws {ZodError} If validation fails
+   *
+   * @example
+   * ```typescript
+   * const { data, sources } = schema.loadWithSources(
+   *   { values: parsedYaml, name: 'config.yml' },
+   *   { env: process.env, name: 'process.env' },
+   * );
+   *
+   * console.log(sources['database.url']);
+   * // { type: 'env', loader: 1, name: 'process.env', key: 'DATABASE_URL' }
+   * ```
+   */
+  loadWithSources(...args: LoadArgs): {
+    data: ZodInfer<ZodObject<T>>;
+    sources: Record<string, ValueSource>;
+  } {
+    const { result, context } = this.run(args);
+
+    if (!result.success) {
+      throw result.error;
+    }
+
+    const sources = { ...context.sources };
+
+    for (const field of context.fields) {
+      if (!sources[field] && getAtPath(result.data, field) !== undefined) {
+        sources[field] = { type: 'default' };
+      }
+    }
 
-    return this.schema.safeParse(value);
+    return { data: result.data, sources };
+  }
+
+  /**
+   * Loads and validates configuration for a profile such as `development`, `test` or `production`.
+   * Throws a ZodError if validation fails.
+   *
+   * Layers, later override earlier:
+   *   1. `profileDefaults()` of the profile
+   *   2. `<basename>.<ext>` - base config
+   *   3. `<basename>.<profile>.<ext>` - profile config
+   *   4. `<basename>.local.<ext>` - local overrides, usually not committed
+   *   5. `<basename>.<profile>.local.<ext>` - local overrides of the profile
+   *   6. `env`
+   *
+   * Each layer may be a `.json`, `.yaml`, `.yml` or `.toml` file (loaded in this order), all files are optional.
+   * Files are read through the `fs` option of `define()`.
+   *
+   * @param profile - Name of the profile, letters, digits, `_` and `-` only as it becomes part of file names
+   * @param options - `dir`, `basename`, `env` and any `LoadOptions`
+   * @returns Validated configuration object
+   * @throws {ZodError} If validation fails
+   * @throws {Error} If the profile name is invalid or the schema has no file access
+   *
+   * @example
+   * ```typescript
+   * const schema = define({
+   *   port: env('PORT').number().default(3000),
+   *   debug: profileDefaults(env('DEBUG').boolean().default(false), { development: true }),
+   * });
+   *
+   * const config = schema.loadProfile(process.env.NODE_ENV ?? 'development', { dir: './config' });
+   * ```
+   */
+  loadProfile(profile: string, options: ProfileOptions = {}): ZodInfer<ZodObject<T>> {
+    const { dir, basename = 'config', env = process.env, ...loadOptions } = options;
+    const fs = this.options.fs;
+
+    // the profile becomes part of file names, so it must not reach outside the directory
+    if (!/^[\w-]+$/.test(profile)) {
+      throw new Error(`Invalid profile name "${profile}", use letters, digits, _ and - only`);
+    }
+
+    if (!fs) {
+      throw new Error('loadProfile() reads config files, pass the fs option to define()');
+    }
+
+    const layers = [basename, `${basename}.${profile}`, `${basename}.local`, `${basename}.${profile}.local`];
+
+    const files = layers.flatMap((layer) =>
+      PROFILE_EXTENSIONS.map((extension) => {
+        const name = `${layer}.${extension}`;
+
+        return fs.loadConfigFile(dir === undefined ? name : `${dir.replace(/\/+$/, '')}/${name}`);
+      }),
+    );
+
+    const envLoader: Loader = { env, name: 'env' };
+
+    return this.load(...files, envLoader, { ...loadOptions, profile });
+  }
+
+  /**
+   * Loads configuration and keeps it up to date while its sources change.
+   * Throws a ZodError if the initial load fails.
+   *
+   * Every reload calls the loader factories again and validates the result. `onChange` is only called when
+   * the validated configuration differs from the current one. If a reload fails, `onError` receives the error
+   * and the last good configuration is kept. Errors thrown by `onChange` are passed to `onError` as well.
+   *
+   * Files of file loaders (e.g. `fromJsonFile()`) and files read through `<KEY>_FILE` variables are watched
+   * and trigger a reload when they change. Other sources can trigger one by calling `reload()`.
+   *
+   * @param loaderFactories - Functions creating the loaders, called on every reload
+   * @param onChange - Receives the new configuration and the changed paths
+   * @param options - `onError`, `interval`, `persistent` and any `LoadOptions`
+   * @returns Watcher with the current configuration, `reload()` and `close()`
+   * @throws {ZodError} If the initial load fails
+   *
+   * @example
+   * ```typescript
+   * const watcher = schema.watch(
+   *   [() => fromYamlFile('config.yml'), () => ({ env: process.env })],
+   *   (config, { changedPaths }) => logger.info(`Configuration changed: ${changedPaths.join(', ')}`),
+   * );
+   *
+   * process.on('SIGHUP', () => watcher.reload());
+   * ```
+   */
+  watch(
+    loaderFactories: (() => Loader)[],
+    onChange: (config: ZodInfer<ZodObject<T>>, change: ConfigChange<ZodInfer<ZodObject<T>>>) => void,
+    options: WatchOptions = {},
+  ): ConfigWatcher<ZodInfer<ZodObject<T>>> {
+    const { onError, interval = 1000, persistent = true, ...loadOptions } = options;
+    // functions stopping the watch of each file
+    const watched = new Map<string, () => void>();
+    let closed = false;
+
+    const loadAll = () => {
+      const loaders = loaderFactories.map((factory) => factory());
+      const { result, context } = this.run([...loaders, loadOptions] as LoadArgs);
+      const files = [
+        ...loaders.flatMap((loader) => (loader.file === undefined ? [] : [loader.file])),
+        ...context.files,
+      ];
+
+      return { result, files };
+    };
+
+    const listener = () => {
+      watcher.reload();
+    };
+
+    // the set of files may change between reloads, e.g. when a <KEY>_FILE variable points elsewhere
+    const watchFiles = (files: string[]) => {
+      if (closed) {
+        return;
+      }
+
+      for (const [file, unwatch] of watched) {
+        if (!files.includes(file)) {
+          unwatch();
+          watched.delete(file);
+        }
+      }
+
+      for (const file of files) {
+        if (!watched.has(file) && this.options.fs) {
+          watched.set(file, this.options.fs.watchFile(file, { interval, persistent }, listener));
+        }
+      }
+    };
+
+    const initial = loadAll();
+
+    if (!initial.result.success) {
+      throw initial.result.error;
+    }
+
+    let config = initial.result.data;
+
+    watchFiles(initial.files);
+
+    const watcher: ConfigWatcher<ZodInfer<ZodObject<T>>> = {
+      get config() {
+        return config;
+      },
+      reload() {
+        let loaded: ReturnType<typeof loadAll>;
+
+        try {
+          loaded = loadAll();
+        } catch (error) {
+          onError?.(error as Error);
+
+          return false;
+        }
+
+        watchFiles(loaded.files);
+
+        if (!loaded.result.success) {
+          onError?.(loaded.result.error);
+
+          return false;
+        }
+
+        const paths = changedPaths(config, loaded.result.data);
+
+        if (!paths.length) {
+          return false;
+        }
+
+        const previous = config;
+
+        config = loaded.result.data;
+
+        // reloads triggered by file changes run in a timer, where a throwing callback would crash the process
+        try {
+          onChange(config, { previous, changedPaths: paths });
+        } catch (error) {
+          onError?.(error as Error);
+        }
+
+        return true;
+      },
+      close() {
+        closed = true;
+        watched.forEach((unwatch) => unwatch());
+        watched.clear();
+      },
+    };
+
+    return watcher;
+  }
+
+  /**
+   * Returns a copy of a loaded configuration with all secret values masked.
+   * Use it whenever the configuration is logged or otherwise exposed.
+   *
+   * @param config - Configuration object returned by `load()`
+   * @returns Copy of the configuration with secret fields replaced by `[REDACTED]`
+   *
+   * @example
+   * ```typescript
+   * const schema = define({
+   *   host: env('HOST').string(),
+   *   databaseUrl: env('DATABASE_URL').secret().string(),
+   * });
+   *
+   * console.log(schema.redact(schema.load({ env: process.env })));
+   * // { host: 'localhost', databaseUrl: '[REDACTED]' }
+   * ```
+   */
+  redact(config: ZodInfer<ZodObject<T>>): ZodInfer<ZodObject<T>> {
+    // masked fields keep their key, only the value is replaced
+    return redactValues(this.shape, config) as ZodInfer<ZodObject<T>>;
+  }
+
+  /**
+   * Serializes a loaded configuration to JSON with all secret values masked. Bigints are written as strings.
+   *
+   * @param config - Configuration object returned by `load()`
+   * @param space - Indentation passed to `JSON.stringify()`
+   * @returns JSON string safe for logging
+   */
+  toSafeJSON(config: ZodInfer<ZodObject<T>>, space?: string | number): string {
+    return JSON.stringify(this.redact(config), bigintReplacer, space);
+  }
+
+  /**
+   * Loads and validates configuration like `load()`, resolving async loaders first.
+   * Rejects with a ZodError if validation fails.
+   *
+   * All loaders are resolved concurrently, precedence still follows the argument order.
+   * Async refinements of the schema are supported.
+   *
+   * @param args - One or more loaders, promises of loaders or functions returning either,
+   *               optionally followed by `LoadOptions`
+   * @returns Promise of the validated configuration object
+   * @throws {ZodError} If validation fails
+   * @throws {Error} If a loader rejects
+   *
+   * @example
+   * ```typescript
+   * const config = await schema.loadAsync(
+   *   () => readFile('config.json', 'utf8').then((content) => ({ values: JSON.parse(content) })),
+   *   async () => ({ env: await fetchSecrets(), name: 'secrets manager' }),
+   *   { env: process.env },
+   * );
+   * ```
+   */
+  async loadAsync(...args: LoadAsyncArgs): Promise<ZodInfer<ZodObject<T>>> {
+    const result = await this.safeLoadAsync(...args);
+
+    if (!result.success) {
+      throw result.error;
+    }
+
+    return result.data;
+  }
+
+  /**
+   * Safely loads and validates configuration like `safeLoad()`, resolving async loaders first.
+   * Validation failures resolve to `{ success: false, error }`, a rejecting loader rejects the promise.
+   *
+   * @param args - One or more loaders, promises of loaders or functions returning either,
+   *               optionally followed by `LoadOptions`
+   * @returns Promise of { success: true, data } or { success: false, error }
+   * @throws {Error} If a loader rejects
+   */
+  async safeLoadAsync(...args: LoadAsyncArgs): Promise<ZodSafeParseResult<ZodInfer<ZodObject<T>>>> {
+    const { loaders: asyncLoaders, options } = splitLoadAsyncArgs(args);
+    const loaders = await Promise.all(asyncLoaders.map((loader) => (typeof loader === 'function' ? loader() : loader)));
+    const { value, context } = this.prepare(loaders, options);
+
+    return this.finish(await this.schema.safeParseAsync(value), context, loaders, options);
+  }
+
+  private run(args: LoadArgs) {
+    const { loaders, options } = splitLoadArgs(args);
+    const { value, context } = this.prepare(loaders, options);
+
+    return { result: this.finish(this.schema.safeParse(value), context, loaders, options), context };
+  }
+
+  // build the input object from the loaders
+  private prepare(loaders: Loader[], options: LoadOptions) {
+    const context = createContext(
+      {
+        profile: options.profile,
+        interpolation: options.interpolate ? createInterpolation(loaders, options.interpolate) : undefined,
+      },
+      !!options.strict,
+    );
+    const value = this.loadValue(this.shape, loaders, [], rootScope(this.options), context);
+
+    if (context.strict) {
+      this.checkUnknownEnv(loaders, options, context);
+      this.checkUnknownFlags(loaders, context);
+    }
+
+    return { value, context };
+  }
+
+  // report warnings and combine load issues with the validation result
+  private finish(
+    result: ZodSafeParseResult<ZodInfer<ZodObject<T>>>,
+    context: LoadContext,
+    loaders: Loader[],
+    options: LoadOptions,
+  ): ZodSafeParseResult<ZodInfer<ZodObject<T>>> {
+    // warnings are opt-in, the library never writes to the console itself
+    context.warnings.forEach((warning) => options.onWarning?.(warning));
+
+    if (!context.issues.length && result.success) {
+      // computed fields see the validated configuration
+      const { computed, issues } = applyComputed(this.shape, result.data as Record<string, unknown>);
+
+      computed.forEach((field) => (context.sources[field] = { type: 'computed' }));
+      // rules see computed values too, so they are skipped when a computed field failed and its value is missing
+      context.issues.push(...(issues.length ? issues : applyRules(this.rules, result.data)));
+
+      if (!context.issues.length) {
+        return result;
+      }
+    }
+
+    // load issues explain why a value is missing or invalid better than zod does, so they take precedence;
+    // unknown keys are unrelated to the issues of other fields
+    const covered = (issue: core.$ZodIssue) =>
+      context.issues.some(
+        (loadIssue) => loadIssue.code !== 'unrecognized_keys' && isWithinPath(issue.path, loadIssue.path),
+      );
+    const parseIssues = result.success ? [] : result.error.issues.filter((issue) => !covered(issue));
+
+    // point at the file a bad value came from
+    const withFile = (issue: core.$ZodIssue): core.$ZodIssue => {
+      const field = Object.keys(context.sources).find((field) => isWithinPath(issue.path, field.split('.')));
+      const source = field ? context.sources[field] : undefined;
+      const file = source && 'loader' in source ? loaders[source.loader]?.file : undefined;
+
+      return file ? { ...issue, message: `${issue.message} (in ${file})` } : issue;
+    };
+
+    const issues = [...context.issues, ...parseIssues].map((issue) => withFile(redactIssue(issue, context)));
+    const error = new ZodConfError<ZodInfer<ZodObject<T>>>({
+      issues,
+      details: issues.map((issue) => describeIssue(issue, context)),
+    });
+
+    return { success: false, error } as ZodSafeParseResult<ZodInfer<ZodObject<T>>>;
   }
 }
 
@@ -175,6 +1518,12 @@ export class ZodConfSchema<T extends ZodRawShape> {
  *
  * @param shape - An object defining the configuration structure where each field
  *                uses `env()` to bind to environment variables or `object()` for nesting
+ * @param options - Optional settings:
+ *   - `autoEnv` - Derive env keys from field paths for fields without an `env()` binding
+ *   - `envPrefix` - Prefix of the derived env keys
+ *   - `parsing` - How env strings are parsed: boolean tokens, empty values and number modes
+ *   - `fs` - File access for `<KEY>_FILE` variables, `loadProfile()` and `watch()`; the package entry passes node's
+ *   - `merge` - How values of a field from several loaders are combined (default: `replace`), see `merge()`
  * @returns A ZodConfSchema instance with `load()` and `safeLoad()` methods
  *
  * @example
@@ -194,8 +1543,17 @@ export class ZodConfSchema<T extends ZodRawShape> {
  *
  * // load from yaml + env (env overrides yaml)
  * const config = schema.load({ values: parsedYaml }, { env: process.env });
+ *
+ * // derive env keys from paths: APP_PORT, APP_DATABASE_POOL_SIZE
+ * const schema = define(
+ *   {
+ *     port: z.number().default(3000),
+ *     database: object({ poolSize: z.number().default(10) }),
+ *   },
+ *   { envPrefix: 'APP_', autoEnv: true },
+ * );
  * ```
  */
-export const define = <T extends ZodRawShape>(shape: T): ZodConfSchema<T> => {
-  return new ZodConfSchema(shape, object(shape));
+export const define = <T extends ZodRawShape>(shape: T, options: DefineOptions = {}): ZodConfSchema<T> => {
+  return new ZodConfSchema(shape, object(shape), options);
 };
@@ -0,0 +1,50 @@
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+// deep equality of configuration values, implemented here as the core does not depend on node:util
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (
+    !a ||
+    !b ||
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  // URL, Date and RegExp objects keep their state in internal slots, which comparing properties does not see
+  if (a instanceof URL || a instanceof RegExp) {
+    return String(a) === String(b);
+  }
+
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+
+  if (Array.isArray(a)) {
+    return a.length === (b as unknown[]).length && a.every((item, index) => isEqual(item, (b as unknown[])[index]));
+  }
+
+  const keys = Object.keys(a);
+
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.hasOwn(b, key) && isEqual((a as any)[key], (b as any)[key]))
+  );
+};
+
+// dotted paths of the values that differ between two configurations, arrays and class instances are compared as a whole
+export const changedPaths = (previous: unknown, next: unknown, path: string[] = []): string[] => {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+    return [...keys].flatMap((key) => changedPaths(previous[key], next[key], [...path, key]));
+  }
+
+  return isEqual(previous, next) ? [] : [path.join('.')];
+};
@@ -0,0 +1,51 @@
+import { discriminatedUnion, literal, type ZodDiscriminatedUnion, type ZodLiteral, type ZodObject } from 'zod';
+import { _unionMetadata } from './env-metadata.js';
+import { env } from './env.js';
+
+// union of the branches, each extended by the discriminator property
+type DiscriminatedBranch<B extends Record<string, ZodObject>, P extends string> = {
+  [V in keyof B & string]: ZodObject<B[V]['shape'] & { [K in P]: ZodLiteral<V> }>;
+}[keyof B & string];
+
+/**
+ * Creates a configuration section that is one of several objects, selected by an environment variable.
+ * Only the env bindings of the selected branch are loaded. The loaded value contains the discriminator
+ * in the `kind` property (or the one given by `options.property`), so TypeScript can narrow it.
+ *
+ * @param key - The env var selecting the branch, or a list of names in priority order
+ * @param branches - Objects by discriminator value
+ * @param options - Optional settings:
+ *   - `property` - Property holding the discriminator, defaults to `kind`
+ * @returns A Zod discriminated union schema
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   storage: discriminated('STORAGE_KIND', {
+ *     s3: object({ bucket: env('S3_BUCKET').string(), region: env('S3_REGION').string() }),
+ *     fs: object({ path: env('STORAGE_PATH').string() }),
+ *   }),
+ * });
+ *
+ * const { storage } = schema.load({ env: { STORAGE_KIND: 'fs', STORAGE_PATH: '/data' } });
+ * // { kind: 'fs', path: '/data' }
+ * ```
+ */
+export const discriminated = <const B extends Record<string, ZodObject>, const P extends string = 'kind'>(
+  key: string | readonly [string, ...string[]],
+  branches: B,
+  options: { property?: P } = {},
+): ZodDiscriminatedUnion<[DiscriminatedBranch<B, P>, ...DiscriminatedBranch<B, P>[]], P> => {
+  const property = options.property ?? 'kind';
+  const values = Object.keys(branches) as [string, ...string[]];
+  // the branch of each value is typed by it, which mapping over the keys cannot express
+  const extended = values.map((value) => (branches[value] as ZodObject).extend({ [property]: literal(value) })) as [
+    DiscriminatedBranch<B, P>,
+    ...DiscriminatedBranch<B, P>[],
+  ];
+  const schema = discriminatedUnion(property as P, extended);
+
+  _unionMetadata.set(schema, { property, discriminator: env(key).enum(values), branches });
+
+  return schema;
+};
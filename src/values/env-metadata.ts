@@ -1,6 +1,193 @@
 // the metadata stores env key and type for each schema
 
-import { type ZodType } from 'zod';
+import { type ZodObject, type ZodType } from 'zod';
+import { type EnvParser } from './env-types.js';
+import { type MergeStrategy } from './merge.js';
+import { type ParseOptions } from './parsing.js';
+
+export type EnvMetadata = {
+  key: string;
+  type: string;
+  // other accepted keys in priority order, read when `key` is not set
+  fallbackKeys?: string[];
+  // accepted keys that produce a deprecation warning, read after the fallback keys
+  deprecatedKeys?: string[];
+  // also read the value from the file named by <KEY>_FILE
+  fromFile?: boolean;
+  // parsing options of the field, override those of `define()`
+  parsing?: ParseOptions;
+  // secret values are redacted by `redact()` and never echoed in issues
+  secret?: boolean;
+  // array bindings: schema of a single item and the separator to split on
+  item?: ZodType;
+  separator?: string;
+  // custom types: converts the raw string before the schema validates it
+  parse?: EnvParser;
+};
 
 // we can use it when building the input object
-export const _envMetadata = new WeakMap<ZodType, { key: string; type: string }>();
+export const _envMetadata = new WeakMap<ZodType, EnvMetadata>();
+
+export type ObjectMetadata = {
+  // prepended to env keys of all fields inside the object
+  prefix?: string;
+};
+
+// options of nested objects created with `object()`
+export const _objectMetadata = new WeakMap<ZodType, ObjectMetadata>();
+
+export type UnionMetadata = {
+  // property holding the discriminator in the loaded value, and its env binding
+  property: string;
+  discriminator: ZodType;
+  // branch objects by discriminator value
+  branches: Record<string, ZodObject>;
+};
+
+// sections created with `discriminated()`
+export const _unionMetadata = new WeakMap<ZodType, UnionMetadata>();
+
+export type RecordMetadata = {
+  // env keys of entries are `<before><NAME><after><FIELD KEY>`, e.g. `QUEUE_` and `_` in `QUEUE_EMAILS_CONCURRENCY`
+  before: string;
+  after: string;
+  entry: ZodObject;
+};
+
+// sections created with `record()`
+export const _recordMetadata = new WeakMap<ZodType, RecordMetadata>();
+
+export type MergeMetadata = {
+  // how values of the field from several loaders are combined
+  strategy: MergeStrategy;
+};
+
+// fields wrapped with `merge()`
+export const _mergeMetadata = new WeakMap<ZodType, MergeMetadata>();
+
+export type ComputedMetadata = {
+  // derives the value from the validated configuration
+  compute: (config: any) => unknown;
+  // only compute the value when no loader or default supplied one
+  fallback: boolean;
+};
+
+// fields created with `computed()`
+export const _computedMetadata = new WeakMap<ZodType, ComputedMetadata>();
+
+export type ProfileMetadata = {
+  // defaults per profile, applied by `loadProfile()` or the `profile` load option
+  defaults: Record<string, unknown>;
+};
+
+// fields wrapped with `profileDefaults()`
+export const _profileMetadata = new WeakMap<ZodType, ProfileMetadata>();
+
+// copy of a schema carrying the same metadata, so that wrappers like `merge()` can attach their own
+// without changing a schema that is shared between fields
+export const cloneSchema = <T extends ZodType>(schema: T): T => {
+  const clone = schema.clone() as T;
+  const metadataMaps: WeakMap<ZodType, unknown>[] = [
+    _envMetadata,
+    _objectMetadata,
+    _unionMetadata,
+    _recordMetadata,
+    _mergeMetadata,
+    _computedMetadata,
+    _profileMetadata,
+  ];
+
+  for (const metadataMap of metadataMaps) {
+    if (metadataMap.has(schema)) {
+      metadataMap.set(clone, metadataMap.get(schema));
+    }
+  }
+
+  return clone;
+};
+
+// zod wrappers (optional, default, nullable, etc.) and effects keep the wrapped schema in their definition
+export const unwrapOnce = (schema: ZodType): ZodType | undefined => {
+  const def = (schema as any)._def;
+
+  return def?.innerType ?? def?.schema;
+};
+
+// traverse wrapped schemas down to the innermost one
+export const unwrapSchema = (schema: ZodType): ZodType => {
+  let currentSchema = schema;
+  let innerSchema = unwrapOnce(currentSchema);
+
+  while (innerSchema) {
+    currentSchema = innerSchema;
+    innerSchema = unwrapOnce(currentSchema);
+  }
+
+  return currentSchema;
+};
+
+// whether a `.nullable()` wrapper accepts null, anywhere between the field and its innermost schema
+export const isNullable = (schema: ZodType): boolean => {
+  let currentSchema: ZodType | undefined = schema;
+
+  while (currentSchema) {
+    if ((currentSchema as any)._def?.type === 'nullable') {
+      return true;
+    }
+
+    currentSchema = unwrapOnce(currentSchema);
+  }
+
+  return false;
+};
+
+// traverse wrapped schemas to find metadata
+export const findEnvMetadata = (schema: ZodType): EnvMetadata | undefined => {
+  let currentSchema: ZodType | undefined = schema;
+
+  while (currentSchema) {
+    const metadata = _envMetadata.get(currentSchema);
+
+    if (metadata) {
+      return metadata;
+    }
+
+    currentSchema = unwrapOnce(currentSchema);
+  }
+
+  return undefined;
+};
+
+const findMetadata = <M>(metadataMap: WeakMap<ZodType, M>, schema: ZodType): M | undefined => {
+  let currentSchema: ZodType | undefined = schema;
+
+  while (currentSchema) {
+    const metadata = metadataMap.get(currentSchema);
+
+    if (metadata) {
+      return metadata;
+    }
+
+    currentSchema = unwrapOnce(currentSchema);
+  }
+
+  return undefined;
+};
+
+// traverse wrapped schemas to find the metadata of a discriminated section
+export const findUnionMetadata = (schema: ZodType): UnionMetadata | undefined => findMetadata(_unionMetadata, schema);
+
+// traverse wrapped schemas to find the metadata of a record section
+export const findRecordMetadata = (schema: ZodType): RecordMetadata | undefined =>
+  findMetadata(_recordMetadata, schema);
+
+// traverse wrapped schemas to find the merge strategy of a field
+export const findMergeMetadata = (schema: ZodType): MergeMetadata | undefined => findMetadata(_mergeMetadata, schema);
+
+// traverse wrapped schemas to find the metadata of a computed field
+export const findComputedMetadata = (schema: ZodType): ComputedMetadata | undefined =>
+  findMetadata(_computedMetadata, schema);
+
+// traverse wrapped schemas to find the defaults per profile of a field
+export const findProfileMetadata = (schema: ZodType): ProfileMetadata | undefined =>
+  findMetadata(_profileMetadata, schema);
@@ -0,0 +1,120 @@
+// custom env types: a parser for the raw string and a schema validating the parsed value
+
+import { type ZodType } from 'zod';
+
+/**
+ * Passed to the parser of a custom env type.
+ */
+export type EnvParseContext = {
+  // env var the raw string was read from, undefined for strings from `values` loaders
+  key: string | undefined;
+  // dotted path of the field
+  path: string;
+  // reports an issue at the field, the parsed value is then ignored
+  addIssue: (message: string) => void;
+};
+
+/**
+ * Converts the raw string of a custom env type. Throwing an error reports its message as an issue.
+ */
+export type EnvParser<T = unknown> = (raw: string, context: EnvParseContext) => T;
+
+/**
+ * A custom env type created with `registerEnvType()`, usable with `env(key).custom(type)`.
+ */
+export type EnvType<S extends ZodType = ZodType> = {
+  name: string;
+  parse: EnvParser;
+  schema: S;
+};
+
+// names of the built-in binding types
+const BUILT_IN_TYPES = [
+  'string',
+  'number',
+  'boolean',
+  'enum',
+  'array',
+  'json',
+  'duration',
+  'bytes',
+  'url',
+  'date',
+  'port',
+  'bigint',
+  'custom',
+];
+
+const _envTypes = new Map<string, EnvType>();
+
+/**
+ * Registers a custom env type, e.g. for `host:port` pairs or `key=value` lists.
+ * The name appears as the type in generated docs and error reports.
+ *
+ * @param name - Unique name of the type
+ * @param parse - Converts the raw string, may report issues through its context
+ * @param schema - Validates the parsed value
+ * @param options - `replace: true` replaces a type registered under the name, e.g. when HMR reloads the module
+ * @returns The type, to be used with `env(key).custom(type)` (or by name)
+ * @throws {Error} If the name is taken by a built-in type, or by a registered type without `replace`
+ *
+ * @example
+ * ```typescript
+ * const hostPort = registerEnvType(
+ *   'hostPort',
+ *   (raw, context) => {
+ *     const [host, port] = raw.split(':');
+ *
+ *     if (!host || !port) {
+ *       context.addIssue(`Expected host:port, got "${raw}"`);
+ *     }
+ *
+ *     return { host, port: Number(port) };
+ *   },
+ *   z.object({ host: z.string(), port: z.number().int() }),
+ * );
+ *
+ * const schema = define({
+ *   database: env('DATABASE_ADDRESS').custom(hostPort),
+ * });
+ * ```
+ */
+export const registerEnvType = <S extends ZodType>(
+  name: string,
+  parse: EnvParser,
+  schema: S,
+  options: { replace?: boolean } = {},
+): EnvType<S> => {
+  if (BUILT_IN_TYPES.includes(name) || (_envTypes.has(name) && !options.replace)) {
+    throw new Error(`Env type "${name}" is already defined`);
+  }
+
+  const type = { name, parse, schema };
+
+  _envTypes.set(name, type);
+
+  return type;
+};
+
+/**
+ * Removes a type registered with `registerEnvType()`, e.g. after a test. Schemas created with the type keep it.
+ *
+ * @param name - Name of the type
+ * @returns Whether a type with the name was registered
+ */
+export const unregisterEnvType = (name: string): boolean => _envTypes.delete(name);
+
+/**
+ * Finds a type registered with `registerEnvType()`.
+ *
+ * @throws {Error} If no type with the name is registered
+ */
+export const findEnvType = (name: string): EnvType => {
+  const type = _envTypes.get(name);
+
+  if (!type) {
+    throw new Error(`Unknown env type "${name}", register it with registerEnvType()`);
+  }
+
+  return type;
+};
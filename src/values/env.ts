@@ -1,16 +1,35 @@
-import { type util, type ZodEnum, type ZodType } from 'zod';
-import { coerce, string, enum as zenum } from 'zod';
-import { _envMetadata } from './env-metadata.js';
+import { type util, type ZodArray, type ZodEnum, type ZodType } from 'zod';
+import { array, boolean, coerce, string, enum as zenum } from 'zod';
+import { bigintSchema, bytesSchema, dateSchema, durationSchema, portSchema, urlSchema } from './coercions.js';
+import { _envMetadata, type EnvMetadata } from './env-metadata.js';
+import { findEnvType, type EnvParser, type EnvType } from './env-types.js';
+import { type ParseOptions } from './parsing.js';
 
 /**
  * Binds a Zod schema to an environment variable.
  *
- * @param key - The name of the environment variable to bind to
+ * @param key - The name of the environment variable to bind to, or a list of names in priority order
  * @returns An object with methods to create different types of schemas:
  *   - `string()` - Creates a string schema
  *   - `number()` - Creates a number schema (auto-coerced from string)
- *   - `boolean()` - Creates a boolean schema (accepts 'true'/'false')
+ *   - `boolean()` - Creates a boolean schema (accepts 'true'/'false', or the tokens of the parsing options)
  *   - `enum(values)` - Creates an enum schema (string array or TypeScript enum)
+ *   - `array(item, options)` - Creates an array schema from a separated list (default separator is `,`)
+ *   - `json(schema)` - Parses the variable as JSON and validates it against the given schema
+ *   - `duration()` - Milliseconds, from values like `500ms`, `30s`, `5m`, `1h`, `1d` or `1h30m`
+ *   - `bytes()` - Bytes, from values like `512b`, `64kb`, `10mb` or `1gb` (multiples of 1024)
+ *   - `url(options)` - A `URL` object, `options.protocols` restricts the allowed protocols
+ *   - `date()` - A `Date`, from an ISO 8601 date, or from a timestamp in milliseconds given as a number
+ *   - `port()` - An integer from 0 to 65535
+ *   - `bigint()` - A `bigint`
+ *   - `custom(parse, schema)` - Converts the variable with `parse` and validates the result against `schema`
+ *   - `custom(type)` - Uses a type registered with `registerEnvType()`, given as the type or its name
+ *
+ * Modifiers can be chained before the type:
+ *   - `secret()` - Marks the value as secret: it is masked by `redact()` and never echoed in issues
+ *   - `deprecatedAlias(key)` - Also accepts `key`, reporting a deprecation warning when it is used
+ *   - `fromFile()` - When the variable is not set, reads the value from the file named by `<KEY>_FILE`
+ *   - `parsing(options)` - How the value is parsed, overriding the `parsing` option of `define()`
  *
  * @example
  * ```typescript
@@ -23,16 +42,55 @@ import { _envMetadata } from './env-metadata.js';
  * // boolean
  * const debug = env('DEBUG').boolean().default(false);
  *
+ * // boolean accepting 1/0, yes/no and on/off
+ * const verbose = env('VERBOSE').parsing({ booleans: 'loose' }).boolean().default(false);
+ *
  * // enum with string array
  * const logLevel = env('LOG_LEVEL').enum(['info', 'debug', 'error']);
  *
  * // enum with TypeScript enum
  * enum Level { INFO = 'info', DEBUG = 'debug' }
  * const level = env('LOG_LEVEL').enum(Level);
+ *
+ * // array, each item is coerced and validated by the item schema
+ * const origins = env('ALLOWED_ORIGINS').array(z.string());
+ * const ports = env('PORTS').array(z.number(), { separator: ';' });
+ *
+ * // json, e.g. ROUTES='[{"path":"/","target":"web"}]'
+ * const routes = env('ROUTES').json(z.array(z.object({ path: z.string(), target: z.string() })));
+ *
+ * // units and formats
+ * const timeout = env('TIMEOUT').duration().default(30_000); // TIMEOUT=30s -> 30000
+ * const maxBody = env('MAX_BODY').bytes(); // MAX_BODY=10mb -> 10485760
+ * const apiUrl = env('API_URL').url({ protocols: ['https'] }); // URL object
+ * const port = env('PORT').port().default(3000);
+ *
+ * // custom, e.g. FEATURES='search=on,export=off'
+ * const features = env('FEATURES').custom(
+ *   (raw) => Object.fromEntries(raw.split(',').map((pair) => pair.split('='))),
+ *   z.record(z.string(), z.enum(['on', 'off'])),
+ * );
+ *
+ * // secret
+ * const databaseUrl = env('DATABASE_URL').secret().string();
+ *
+ * // renamed variable: DATABASE_URL wins over DB_URL, OLD_DATABASE_URL still works but is reported as deprecated
+ * const databaseUrl = env(['DATABASE_URL', 'DB_URL']).deprecatedAlias('OLD_DATABASE_URL').string();
+ *
+ * // docker secret: DB_PASSWORD or the contents of the file in DB_PASSWORD_FILE
+ * const dbPassword = env('DB_PASSWORD').secret().fromFile().string();
  * ```
  */
-export const env = (key: string) => {
-  const wrap = <T extends ZodType>(schema: T, envKey: string, envType: string): T => {
+export const env = (key: string | readonly [string, ...string[]]) => {
+  const [primaryKey, ...fallbackKeys] = typeof key === 'string' ? [key] : key;
+
+  // binding options collected by modifiers like `.secret()` before the type is chosen
+  const binding: Pick<EnvMetadata, 'key' | 'secret' | 'fromFile' | 'fallbackKeys' | 'deprecatedKeys' | 'parsing'> = {
+    key: primaryKey,
+    ...(fallbackKeys.length ? { fallbackKeys } : {}),
+  };
+
+  const wrap = <T extends ZodType>(schema: T, metadata: EnvMetadata): T => {
     // create a proxy to preserve metadata through method chaining
     const proxied = new Proxy(schema, {
       get(target, prop) {
@@ -47,7 +105,7 @@ export const env = (key: string) => {
 
             if (result && typeof result === 'object' && result._def) {
               // if result is a new chained Zod schema, wrap it in a new proxy
-              return wrap(result, envKey, envType);
+              return wrap(result, metadata);
             }
 
             return result;
@@ -60,15 +118,36 @@ export const env = (key: string) => {
     }) as T;
 
     // remember metadata for the proxied object
-    _envMetadata.set(proxied, { key: envKey, type: envType });
+    _envMetadata.set(proxied, metadata);
 
     return proxied;
   };
 
   return {
-    string: () => wrap(string(), key, 'string'),
-    number: () => wrap(coerce.number(), key, 'number'),
-    boolean: () => wrap(coerce.boolean(), key, 'boolean'),
+    secret() {
+      binding.secret = true;
+
+      return this;
+    },
+    fromFile() {
+      binding.fromFile = true;
+
+      return this;
+    },
+    parsing(options: ParseOptions) {
+      binding.parsing = options;
+
+      return this;
+    },
+    deprecatedAlias(alias: string) {
+      binding.deprecatedKeys = [...(binding.deprecatedKeys ?? []), alias];
+
+      return this;
+    },
+    string: () => wrap(string(), { ...binding, type: 'string' }),
+    number: () => wrap(coerce.number(), { ...binding, type: 'number' }),
+    // env strings are parsed by the parsing options, `coerce.boolean()` would turn 'false' from values into true
+    boolean: () => wrap(boolean(), { ...binding, type: 'boolean' }),
     enum: (() => {
       type EnumValue = string | number;
       type EnumLike = Readonly<Record<string, EnumValue>>;
@@ -79,10 +158,39 @@ export const env = (key: string) => {
       function enumMethod<const T extends EnumLike>(entries: T): ZodEnum<T>;
       // implementation
       function enumMethod(values: any): any {
-        return wrap(zenum(values), key, 'enum');
+        return wrap(zenum(values), { ...binding, type: 'enum' });
       }
 
       return enumMethod;
     })(),
+    array: <T extends ZodType>(item: T, options: { separator?: string } = {}): ZodArray<T> =>
+      wrap(array(item), { ...binding, type: 'array', item, separator: options.separator ?? ',' }),
+    json: <T extends ZodType>(schema: T): T => wrap(schema, { ...binding, type: 'json' }),
+    duration: () => wrap(durationSchema(), { ...binding, type: 'duration' }),
+    bytes: () => wrap(bytesSchema(), { ...binding, type: 'bytes' }),
+    url: (options: { protocols?: string[] } = {}) => wrap(urlSchema(options.protocols), { ...binding, type: 'url' }),
+    date: () => wrap(dateSchema(), { ...binding, type: 'date' }),
+    port: () => wrap(portSchema(), { ...binding, type: 'port' }),
+    bigint: () => wrap(bigintSchema(), { ...binding, type: 'bigint' }),
+    custom: (() => {
+      // inline parser
+      function customMethod<T extends ZodType>(parse: EnvParser, schema: T): T;
+      // registered type
+      function customMethod<T extends ZodType>(type: EnvType<T>): T;
+      // registered type by name, the output type is not known
+      function customMethod(name: string): ZodType;
+      // implementation
+      function customMethod(type: EnvParser | EnvType | string, schema?: ZodType): ZodType {
+        if (typeof type === 'function') {
+          return wrap(schema as ZodType, { ...binding, type: 'custom', parse: type });
+        }
+
+        const { name, parse, schema: typeSchema } = typeof type === 'string' ? findEnvType(type) : type;
+
+        return wrap(typeSchema, { ...binding, type: name, parse });
+      }
+
+      return customMethod;
+    })(),
   };
 };
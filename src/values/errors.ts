@@ -0,0 +1,131 @@
+import { core, ZodError } from 'zod';
+import { type ValueSource } from './define.js';
+
+/**
+ * Describes a single issue of a failed load in terms an operator can act on.
+ */
+export type ConfigIssue = {
+  // dotted path of the field, empty for issues about the whole configuration
+  path: string;
+  code: string;
+  message: string;
+  // env var to set: the one that supplied the value, otherwise the one bound to the field
+  key?: string;
+  // where the invalid value came from, missing if no loader supplied one
+  source?: ValueSource;
+  // value as supplied, `[REDACTED]` for secrets
+  value?: string;
+  // expected type or allowed values
+  expected?: string;
+};
+
+/**
+ * Error thrown by `load()` and returned by `safeLoad()`, a `ZodError` with operator-friendly details of each issue.
+ */
+export interface ZodConfError<T = unknown> extends ZodError<T> {
+  details: ConfigIssue[];
+}
+
+type ZodConfErrorDef = {
+  issues: core.$ZodIssue[];
+  details: ConfigIssue[];
+};
+
+// zod's error constructors have no type parameter, this one also types the configuration the error is about
+type ZodConfErrorConstructor = { new <T = unknown>(def: ZodConfErrorDef): ZodConfError<T> } & core.$constructor<
+  ZodConfError,
+  ZodConfErrorDef
+>;
+
+// zod's `instanceof` matches every instance of the parent, so the parent is a class of its own rather than `Error`
+class ConfigErrorParent extends Error {}
+
+// built the way zod builds its own errors, so `instanceof` matches both `ZodError` and `ZodConfError`; like zod's
+// `ZodRealError` it extends `Error`, so it is an `Error` with a stack trace too
+export const ZodConfError = core.$constructor<ZodConfError, ZodConfErrorDef>(
+  'ZodConfError',
+  (inst, def) => {
+    ZodError.init(inst, def.issues);
+    inst.name = 'ZodConfError';
+    inst.details = def.details;
+  },
+  { Parent: ConfigErrorParent },
+) as ZodConfErrorConstructor;
+
+const MAX_CELL_LENGTH = 40;
+
+const formatSource = (source: ValueSource | undefined): string => {
+  switch (source?.type) {
+    case 'env':
+      return source.name ?? 'env';
+    case 'values':
+      return source.name ?? `values #${source.loader}`;
+    case 'argv':
+      return source.name ?? source.flag;
+    case 'profile':
+      return `profile ${source.profile}`;
+    case 'default':
+      return 'default';
+    case 'computed':
+      return 'computed';
+    default:
+      return '';
+  }
+};
+
+const truncate = (value: string): string =>
+  value.length > MAX_CELL_LENGTH ? `${value.slice(0, MAX_CELL_LENGTH - 1)}…` : value;
+
+/**
+ * Formats a configuration error as a compact table, e.g. for the stderr of a process that cannot start.
+ * Secret values are masked. Plain zod errors are formatted with paths and messages only.
+ *
+ * @param error - Error thrown by `load()` or returned by `safeLoad()`
+ * @returns Multi-line report
+ *
+ * @example
+ * ```typescript
+ * const result = schema.safeLoad({ env: process.env });
+ *
+ * if (!result.success) {
+ *   process.stderr.write(formatConfigError(result.error));
+ *   process.exit(1);
+ * }
+ * // Invalid configuration (1 issue):
+ * //
+ * //   PATH               ENV VAR      SOURCE  VALUE  EXPECTED  PROBLEM
+ * //   database.pool.max  DB_POOL_MAX  env     "ten"  number    Invalid number "ten" in DB_POOL_MAX, expected a decimal number
+ * ```
+ */
+export const formatConfigError = (error: ZodError): string => {
+  const details: ConfigIssue[] =
+    error instanceof ZodConfError
+      ? error.details
+      : error.issues.map((issue) => ({ path: issue.path.join('.'), code: issue.code, message: issue.message }));
+
+  const rows = details.map((detail) => [
+    detail.path || '-',
+    detail.key ?? '-',
+    formatSource(detail.source) || '-',
+    detail.value === undefined ? '-' : truncate(detail.value),
+    detail.expected === undefined ? '-' : truncate(detail.expected),
+    detail.message,
+  ]);
+  const table = [['PATH', 'ENV VAR', 'SOURCE', 'VALUE', 'EXPECTED', 'PROBLEM'], ...rows];
+  const widths = table.reduce<number[]>(
+    (widths, row) => row.map((cell, column) => Math.max(widths[column] ?? 0, cell.length)),
+    [],
+  );
+
+  const lines = table.map(
+    (row) =>
+      '  ' +
+      row
+        .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths[column] ?? 0)))
+        .join('  ')
+        .trimEnd(),
+  );
+  const count = `${details.length} ${details.length === 1 ? 'issue' : 'issues'}`;
+
+  return [`Invalid configuration (${count}):`, '', ...lines].join('\n') + '\n';
+};
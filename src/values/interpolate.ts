@@ -0,0 +1,98 @@
+// `${VAR}` / `${VAR:-default}` interpolation against env variables, `$${` escapes a literal `${`
+
+type Env = Record<string, string | undefined>;
+
+const NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export class InterpolationError extends Error {}
+
+// position of the `}` closing the reference opened before `start`, allowing nested references in defaults
+const findClosingBrace = (template: string, start: number): number => {
+  let depth = 0;
+
+  for (let index = start; index < template.length; index++) {
+    if (template.startsWith('${', index)) {
+      depth++;
+      index++;
+    } else if (template[index] === '}') {
+      if (depth === 0) {
+        return index;
+      }
+
+      depth--;
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Creates a function expanding references in strings.
+ *
+ * - `${VAR}` is replaced by the value of `VAR`, an unset variable is an error
+ * - `${VAR:-default}` falls back to `default` (which may contain references) when `VAR` is unset or empty
+ * - `$${` produces a literal `${`
+ *
+ * @param env - Variables available to references
+ * @param recursive - Also expand references inside the variables themselves, reporting circular references
+ * @returns Function expanding a string
+ * @throws {InterpolationError} From the returned function, for unresolved, invalid or circular references
+ */
+export const createInterpolator = (env: Env, recursive: boolean) => {
+  const expand = (template: string, stack: string[]): string => {
+    let result = '';
+    let index = 0;
+
+    while (index < template.length) {
+      if (template.startsWith('$${', index)) {
+        result += '${';
+        index += 3;
+        continue;
+      }
+
+      if (!template.startsWith('${', index)) {
+        result += template[index];
+        index++;
+        continue;
+      }
+
+      const end = findClosingBrace(template, index + 2);
+
+      if (end === -1) {
+        throw new InterpolationError('Unterminated reference, expected }');
+      }
+
+      const expression = template.slice(index + 2, end);
+      const separator = expression.indexOf(':-');
+      const name = separator === -1 ? expression : expression.slice(0, separator);
+      const fallback = separator === -1 ? undefined : expression.slice(separator + 2);
+
+      if (!NAME.test(name)) {
+        throw new InterpolationError(`Invalid reference \${${expression}}`);
+      }
+
+      if (stack.includes(name)) {
+        throw new InterpolationError(`Circular reference ${[...stack, name].join(' -> ')}`);
+      }
+
+      const raw = env[name];
+      const value = raw !== undefined && recursive ? expand(raw, [...stack, name]) : raw;
+
+      if (value === undefined || (value === '' && fallback !== undefined)) {
+        if (fallback === undefined) {
+          throw new InterpolationError(`Unresolved reference \${${name}}`);
+        }
+
+        result += expand(fallback, stack);
+      } else {
+        result += value;
+      }
+
+      index = end + 1;
+    }
+
+    return result;
+  };
+
+  return (template: string) => expand(template, []);
+};
@@ -0,0 +1,7 @@
+// JSON of configuration values
+
+/**
+ * `JSON.stringify()` replacer writing bigints as strings, as JSON has no bigint and stringifying one throws.
+ */
+export const bigintReplacer = (_key: string, value: unknown): unknown =>
+  typeof value === 'bigint' ? String(value) : value;
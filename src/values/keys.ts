@@ -0,0 +1,167 @@
+import { ZodObject, type ZodRawShape, type ZodType } from 'zod';
+import {
+  _objectMetadata,
+  findEnvMetadata,
+  unwrapSchema,
+  type EnvMetadata,
+  type RecordMetadata,
+} from './env-metadata.js';
+
+// env key prefixes in effect at some position of the schema
+export type KeyScope = {
+  // derive env keys for fields without an explicit `env()` binding
+  autoEnv: boolean;
+  // prefix of derived keys: the root prefix followed by the segments (or prefixes) of enclosing objects
+  derivedPrefix: string;
+  // prefix of explicit keys: the prefixes of enclosing objects
+  explicitPrefix: string;
+};
+
+/**
+ * Converts a property name to an env key segment, e.g. `poolSize` -> `POOL_SIZE`.
+ */
+export const toEnvSegment = (key: string): string =>
+  key
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toUpperCase();
+
+/**
+ * Converts an env key segment to a property name, e.g. `EMAIL_DIGEST` -> `emailDigest`.
+ */
+export const fromEnvSegment = (segment: string): string =>
+  segment.toLowerCase().replace(/_+([a-z0-9])/g, (_match, char: string) => char.toUpperCase());
+
+export const rootScope = (options: { envPrefix?: string; autoEnv?: boolean }): KeyScope => ({
+  autoEnv: !!options.autoEnv,
+  derivedPrefix: options.envPrefix ?? '',
+  explicitPrefix: '',
+});
+
+// scope of the fields of a nested object stored under the given key
+export const enterObject = (scope: KeyScope, key: string, schema: ZodType): KeyScope => {
+  const prefix = _objectMetadata.get(schema)?.prefix;
+
+  return {
+    ...scope,
+    derivedPrefix: scope.derivedPrefix + (prefix ?? `${toEnvSegment(key)}_`),
+    explicitPrefix: scope.explicitPrefix + (prefix ?? ''),
+  };
+};
+
+// scope of fields whose keys start with the given prefix, without a segment derived from their path
+export const enterPrefix = (scope: KeyScope, prefix: string): KeyScope => ({
+  ...scope,
+  derivedPrefix: scope.derivedPrefix + prefix,
+  explicitPrefix: scope.explicitPrefix + prefix,
+});
+
+// scope of the fields of a branch of a discriminated section, branches add their prefix but no path segment
+export const enterBranch = (scope: KeyScope, branch: ZodObject): KeyScope =>
+  enterPrefix(scope, _objectMetadata.get(branch)?.prefix ?? '');
+
+// scope of the fields of a record entry, e.g. `QUEUE_EMAILS_` for the `emails` entry of `record('QUEUE_*_', ...)`
+export const enterRecordEntry = (scope: KeyScope, record: RecordMetadata, segment: string): KeyScope =>
+  enterPrefix(scope, record.before + segment + record.after);
+
+// binding of plain zod schemas, based on the type they expect
+const inferBinding = (schema: ZodType): Omit<EnvMetadata, 'key'> | undefined => {
+  const def = (unwrapSchema(schema) as any)._def;
+
+  switch (def?.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+    case 'enum':
+      return { type: def.type };
+    case 'array':
+      return { type: 'array', item: def.element, separator: ',' };
+    case 'record':
+    case 'tuple':
+      return { type: 'json' };
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Binding of a field without an env binding on the command line, typed by its schema.
+ * Flags of such fields are parsed through it, and `formatArgvHelp()` lists them by it.
+ */
+export const createArgvBinding = (schema: ZodType, key: string): EnvMetadata => {
+  const inner = unwrapSchema(schema) as any;
+  const type: string = inner._def.type;
+
+  if (type === 'array') {
+    return { key, type, item: inner._def.element };
+  }
+
+  return { key, type: type === 'object' || type === 'record' ? 'json' : type };
+};
+
+/**
+ * Resolves the env binding of a field: the explicit `env()` binding with the prefixes of enclosing objects,
+ * or a binding derived from the field path when `autoEnv` is enabled.
+ */
+export const resolveBinding = (schema: ZodType, key: string, scope: KeyScope): EnvMetadata | undefined => {
+  const metadata = findEnvMetadata(schema);
+
+  if (metadata) {
+    const prefix = (keys: string[]) => keys.map((key) => scope.explicitPrefix + key);
+
+    return scope.explicitPrefix
+      ? {
+          ...metadata,
+          key: scope.explicitPrefix + metadata.key,
+          ...(metadata.fallbackKeys && { fallbackKeys: prefix(metadata.fallbackKeys) }),
+          ...(metadata.deprecatedKeys && { deprecatedKeys: prefix(metadata.deprecatedKeys) }),
+        }
+      : metadata;
+  }
+
+  if (!scope.autoEnv || schema instanceof ZodObject) {
+    return undefined;
+  }
+
+  const binding = inferBinding(schema);
+
+  return binding && { ...binding, key: scope.derivedPrefix + toEnvSegment(key) };
+};
+
+// env keys of the fields of a shape relative to the scope, and whether they are explicit or derived
+const collectKeys = (shape: ZodRawShape, scope: KeyScope): { key: string; explicit: boolean }[] =>
+  Object.entries(shape).flatMap(([key, value]) => {
+    const schema = value as ZodType;
+
+    if (schema instanceof ZodObject && !findEnvMetadata(schema)) {
+      return collectKeys(schema.shape, enterObject(scope, key, schema));
+    }
+
+    const binding = resolveBinding(schema, key, scope);
+    const explicit = !!findEnvMetadata(schema);
+    const keys = binding ? [binding.key, ...(binding.fallbackKeys ?? []), ...(binding.deprecatedKeys ?? [])] : [];
+
+    return keys.flatMap((key) => [{ key, explicit }, ...(binding?.fromFile ? [{ key: `${key}_FILE`, explicit }] : [])]);
+  });
+
+/**
+ * Finds the dynamic segment of an env key belonging to an entry of a record section,
+ * e.g. `EMAILS` in `QUEUE_EMAILS_CONCURRENCY` for `record('QUEUE_*_', object({ concurrency: env('CONCURRENCY') }))`.
+ */
+export const findRecordSegment = (key: string, record: RecordMetadata, scope: KeyScope): string | undefined => {
+  // longer field keys first, so that `POOL_MAX` wins over `MAX`
+  const fieldKeys = collectKeys(record.entry.shape, { ...scope, derivedPrefix: '', explicitPrefix: '' }).sort(
+    (a, b) => b.key.length - a.key.length,
+  );
+
+  for (const fieldKey of fieldKeys) {
+    const head = (fieldKey.explicit ? scope.explicitPrefix : scope.derivedPrefix) + record.before;
+    const tail = record.after + fieldKey.key;
+
+    if (key.length > head.length + tail.length && key.startsWith(head) && key.endsWith(tail)) {
+      return key.slice(head.length, key.length - tail.length);
+    }
+  }
+
+  return undefined;
+};
@@ -0,0 +1,106 @@
+// how the values of a field from several loaders are combined
+
+import { type ZodType } from 'zod';
+import { isPlainObject } from './diff.js';
+import { _mergeMetadata, cloneSchema } from './env-metadata.js';
+
+/**
+ * How a value from a later loader is combined with the value from earlier ones:
+ * - `replace` (default) - the later value wins
+ * - `deep` - plain objects are merged recursively, other values (including arrays) are replaced
+ * - `append` / `prepend` - arrays are concatenated after / before the earlier items
+ * - `{ mergeBy: key }` - array items with the same `key` are deep-merged, new items are appended
+ */
+export type MergeStrategy = 'replace' | 'deep' | 'append' | 'prepend' | { mergeBy: string };
+
+const deepMerge = (previous: unknown, next: unknown): unknown => {
+  if (!isPlainObject(previous) || !isPlainObject(next)) {
+    return next;
+  }
+
+  const result = { ...previous };
+
+  for (const [key, value] of Object.entries(next)) {
+    if (value !== undefined) {
+      result[key] = deepMerge(previous[key], value);
+    }
+  }
+
+  return result;
+};
+
+const mergeByKey = (previous: unknown[], next: unknown[], key: string): unknown[] => {
+  const result = [...previous];
+
+  for (const item of next) {
+    const index = isPlainObject(item)
+      ? result.findIndex((candidate) => isPlainObject(candidate) && candidate[key] === item[key])
+      : -1;
+
+    if (index === -1) {
+      result.push(item);
+    } else {
+      result[index] = deepMerge(result[index], item);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Combines the value of a field with the value of a later loader.
+ * Values that do not fit the strategy, e.g. a string where an array is expected, replace the earlier value.
+ */
+export const mergeValues = (previous: unknown, next: unknown, strategy: MergeStrategy = 'replace'): unknown => {
+  if (previous === undefined || strategy === 'replace') {
+    return next;
+  }
+
+  if (strategy === 'deep') {
+    return deepMerge(previous, next);
+  }
+
+  if (!Array.isArray(previous) || !Array.isArray(next)) {
+    return next;
+  }
+
+  switch (strategy) {
+    case 'append':
+      return [...previous, ...next];
+    case 'prepend':
+      return [...next, ...previous];
+    default:
+      return mergeByKey(previous, next, strategy.mergeBy);
+  }
+};
+
+/**
+ * Sets how the values of a field from several loaders are combined, e.g. a base YAML file and an overlay per
+ * environment. Applies to fields, not to `object()` sections, whose fields are combined one by one anyway.
+ * Values from env and argv loaders are combined by the strategy as well.
+ *
+ * @param schema - Schema of the field, bound to an env var or not
+ * @param strategy - Merge strategy, see `MergeStrategy`
+ * @returns A copy of the schema with the strategy, the passed schema is left unchanged
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   // overlay entries are added to the base ones
+ *   allowedOrigins: merge(z.array(z.string()), 'append'),
+ *   // overlay servers update the base servers with the same name
+ *   servers: merge(z.array(z.object({ name: z.string(), port: z.number() })), { mergeBy: 'name' }),
+ *   // overlay keys are merged into the base object
+ *   labels: merge(z.record(z.string(), z.string()), 'deep'),
+ * });
+ *
+ * schema.load(fromYamlFile('config.yml'), fromYamlFile('config.production.yml'));
+ * ```
+ */
+export const merge = <T extends ZodType>(schema: T, strategy: MergeStrategy): T => {
+  const clone = cloneSchema(schema);
+
+  _mergeMetadata.set(clone, { strategy });
+
+  return clone;
+};
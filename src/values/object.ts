@@ -1,12 +1,16 @@
 import { type ZodObject } from 'zod';
 import { type ZodRawShape } from 'zod';
 import { object as zobject } from 'zod';
+import { _objectMetadata, type ObjectMetadata } from './env-metadata.js';
 
 /**
  * Creates a nested object schema for grouping related configuration.
  * This is a convenience wrapper around Zod's object() for consistency.
  *
  * @param shape - An object where values are environment bindings or nested objects
+ * @param options - Optional settings:
+ *   - `prefix` - Prepended to the env keys of all fields inside the object. With `autoEnv` it also
+ *     replaces the segment derived from the property name. Allows mounting the same shape under different prefixes.
  * @returns A Zod object schema
  *
  * @example
@@ -30,8 +34,20 @@ import { object as zobject } from 'zod';
  *     }),
  *   }),
  * });
+ *
+ * // reuse a shape under different prefixes: DB_URL and REPLICA_DB_URL
+ * const database = { url: env('URL').string() };
+ *
+ * const schema = define({
+ *   primary: object(database, { prefix: 'DB_' }),
+ *   replica: object(database, { prefix: 'REPLICA_DB_' }),
+ * });
  * ```
  */
-export const object = <T extends ZodRawShape>(shape: T): ZodObject<T> => {
-  return zobject(shape);
+export const object = <T extends ZodRawShape>(shape: T, options: ObjectMetadata = {}): ZodObject<T> => {
+  const schema = zobject(shape);
+
+  _objectMetadata.set(schema, options);
+
+  return schema;
 };
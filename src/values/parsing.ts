@@ -0,0 +1,137 @@
+// conversion of raw env strings to the values the schemas expect
+
+/**
+ * How env strings are parsed, set for all fields with `define(shape, { parsing })` or per field with `.parsing()`.
+ */
+export type ParseOptions = {
+  // accepted boolean tokens, compared case-insensitively:
+  // 'strict' (default) accepts true/false, 'loose' also 1/0, yes/no and on/off
+  booleans?: 'strict' | 'loose' | { true: string[]; false: string[] };
+  // 'unset' treats an empty (or blank) variable as not set, 'value' passes it on to be parsed;
+  // by default strings keep empty values and all other types treat them as not set
+  emptyString?: 'unset' | 'value';
+  // 'finite' rejects Infinity, 'integer' only accepts integers; numbers must be written in decimal notation
+  numbers?: 'any' | 'finite' | 'integer';
+  // value clearing what earlier loaders set, e.g. `__unset__`: nullable fields become null, others are unset again
+  unset?: string;
+};
+
+/**
+ * Thrown for env strings the binding type cannot represent.
+ */
+export class ParseError extends Error {
+  constructor(
+    readonly type: string,
+    // description of the accepted input, e.g. `true or false`
+    readonly expected?: string,
+  ) {
+    super(`Invalid ${type}${expected ? `, expected ${expected}` : ''}`);
+  }
+}
+
+const BOOLEAN_TOKENS = {
+  strict: { true: ['true'], false: ['false'] },
+  loose: { true: ['true', '1', 'yes', 'on'], false: ['false', '0', 'no', 'off'] },
+};
+
+const DECIMAL = /^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?$/i;
+const INFINITY = /^[+-]?infinity$/i;
+
+// types parsed by their schemas (see coercions.ts), which also accept values from `values` loaders
+const SCHEMA_PARSED = ['duration', 'bytes', 'url', 'date', 'port', 'bigint'];
+
+const getBooleanTokens = (options: ParseOptions) =>
+  typeof options.booleans === 'object' ? options.booleans : BOOLEAN_TOKENS[options.booleans ?? 'strict'];
+
+// the boolean a token stands for, undefined if it is none of the accepted tokens
+const matchBoolean = (value: string, options: ParseOptions): boolean | undefined => {
+  const tokens = getBooleanTokens(options);
+  const token = value.trim().toLowerCase();
+
+  if (tokens.true.some((candidate) => candidate.toLowerCase() === token)) {
+    return true;
+  }
+
+  if (tokens.false.some((candidate) => candidate.toLowerCase() === token)) {
+    return false;
+  }
+
+  return undefined;
+};
+
+const parseBoolean = (value: string, options: ParseOptions): boolean => {
+  const parsed = matchBoolean(value, options);
+
+  if (parsed === undefined) {
+    const tokens = getBooleanTokens(options);
+
+    throw new ParseError('boolean', `one of ${[...tokens.true, ...tokens.false].join(', ')}`);
+  }
+
+  return parsed;
+};
+
+/**
+ * Whether a string is one of the boolean tokens accepted under the parsing options.
+ */
+export const isBooleanToken = (value: string, options: ParseOptions): boolean =>
+  matchBoolean(value, options) !== undefined;
+
+const parseNumber = (value: string, options: ParseOptions): number => {
+  const trimmed = value.trim();
+  const mode = options.numbers ?? 'any';
+
+  if (!DECIMAL.test(trimmed) && !(mode === 'any' && INFINITY.test(trimmed))) {
+    throw new ParseError('number', mode === 'integer' ? 'an integer' : 'a decimal number');
+  }
+
+  const number = INFINITY.test(trimmed) ? (trimmed.startsWith('-') ? -Infinity : Infinity) : Number(trimmed);
+
+  if (mode === 'integer' && !Number.isInteger(number)) {
+    throw new ParseError('number', 'an integer');
+  }
+
+  if (mode === 'finite' && !Number.isFinite(number)) {
+    throw new ParseError('number', 'a finite number');
+  }
+
+  return number;
+};
+
+/**
+ * Whether a variable counts as not set under the parsing options.
+ */
+export const isUnsetValue = (type: string, value: string, options: ParseOptions): boolean => {
+  const policy = options.emptyString ?? (type === 'string' ? 'value' : 'unset');
+
+  return policy === 'unset' && (type === 'string' ? value === '' : value.trim() === '');
+};
+
+/**
+ * Converts a raw env string to what the schema of the given binding type expects.
+ *
+ * @returns The converted value, or undefined for types without a conversion
+ * @throws {ParseError} If the string cannot be converted
+ */
+export const coerceEnvValue = (type: string | undefined, value: string, options: ParseOptions): unknown => {
+  switch (type) {
+    case 'string':
+      return value;
+    case 'number':
+      return parseNumber(value, options);
+    case 'boolean':
+      return parseBoolean(value, options);
+    case 'enum': {
+      const numValue = Number(value);
+
+      // guess if enum is number-based
+      if (value && !isNaN(numValue) && Number.isInteger(numValue)) {
+        return numValue;
+      }
+
+      return value;
+    }
+    default:
+      return type && SCHEMA_PARSED.includes(type) ? value : undefined;
+  }
+};
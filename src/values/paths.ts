@@ -0,0 +1,13 @@
+// dotted paths of configuration fields, e.g. `database.pool.max`
+
+/**
+ * Reads the value at a dotted path, `undefined` when a section on the way is missing.
+ */
+export const getAtPath = (value: unknown, path: string): unknown =>
+  path.split('.').reduce<any>((current, key) => current?.[key], value);
+
+/**
+ * Whether a path lies within a parent path, the parent itself included.
+ */
+export const isWithinPath = (path: PropertyKey[], parent: PropertyKey[]): boolean =>
+  parent.every((key, index) => path[index] === key);
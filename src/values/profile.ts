@@ -0,0 +1,30 @@
+// defaults of a field per profile, e.g. `development` or `test`
+
+import { type input, type ZodType } from 'zod';
+import { _profileMetadata, cloneSchema } from './env-metadata.js';
+
+/**
+ * Sets default values of a field per profile. The default of the active profile (given to `loadProfile()` or
+ * with the `profile` load option) is applied before all loaders, so any loader overrides it.
+ *
+ * @param schema - Schema of the field, bound to an env var or not
+ * @param defaults - Input values of the field by profile name
+ * @returns A copy of the schema with the profile defaults
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   debug: profileDefaults(env('DEBUG').boolean().default(false), { development: true, test: true }),
+ *   logLevel: profileDefaults(z.enum(['debug', 'info']).default('info'), { development: 'debug' }),
+ * });
+ *
+ * const config = schema.loadProfile('development');
+ * ```
+ */
+export const profileDefaults = <T extends ZodType>(schema: T, defaults: Record<string, input<T>>): T => {
+  const clone = cloneSchema(schema);
+
+  _profileMetadata.set(clone, { defaults });
+
+  return clone;
+};
@@ -0,0 +1,44 @@
+import { record as zrecord, string, type ZodObject, type ZodRecord, type ZodRawShape, type ZodString } from 'zod';
+import { _recordMetadata } from './env-metadata.js';
+
+/**
+ * Creates a map of objects whose entries are discovered from env var names, e.g. per-queue or per-tenant settings.
+ *
+ * The pattern contains a single `*` standing for the name of an entry. Env keys of the entry fields are appended
+ * to the pattern, so with `record('QUEUE_*_', ...)` the variable `QUEUE_EMAILS_CONCURRENCY` sets `concurrency`
+ * of the `emails` entry. Names are converted to camelCase (`EMAIL_DIGEST` -> `emailDigest`).
+ * Entries from `values` loaders are merged with those found in the env.
+ *
+ * @param pattern - Env key prefix of the entries with `*` in place of the entry name
+ * @param entry - Object schema of an entry
+ * @returns A Zod record schema
+ * @throws {Error} If the pattern does not contain exactly one `*`
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   queues: record('QUEUE_*_', object({
+ *     concurrency: env('CONCURRENCY').number().default(1),
+ *   })),
+ * });
+ *
+ * schema.load({ env: { QUEUE_EMAILS_CONCURRENCY: '5', QUEUE_REPORTS_CONCURRENCY: '2' } });
+ * // { queues: { emails: { concurrency: 5 }, reports: { concurrency: 2 } } }
+ * ```
+ */
+export const record = <T extends ZodRawShape>(
+  pattern: string,
+  entry: ZodObject<T>,
+): ZodRecord<ZodString, ZodObject<T>> => {
+  const [before, after, ...rest] = pattern.split('*');
+
+  if (before === undefined || after === undefined || rest.length) {
+    throw new Error(`Record pattern must contain exactly one *, got "${pattern}"`);
+  }
+
+  const schema = zrecord(string(), entry);
+
+  _recordMetadata.set(schema, { before, after, entry });
+
+  return schema;
+};
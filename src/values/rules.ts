@@ -0,0 +1,98 @@
+// validation rules spanning several fields, checked after the fields themselves are valid
+
+import { type core } from 'zod';
+import { getAtPath } from './paths.js';
+
+/**
+ * Passed to the `validate` function of a rule.
+ */
+export type RuleContext = {
+  // reports an issue at the dotted path of a field, or at the whole configuration without a path
+  addIssue: (message: string, path?: string) => void;
+};
+
+/**
+ * A validation rule spanning several fields, added with `schema.refine(rule)`.
+ */
+export type ConfigRule<C> = {
+  validate: (config: C, context: RuleContext) => void;
+};
+
+/**
+ * Options of `schema.refine(check, options)`.
+ */
+export type RefineOptions = {
+  message: string;
+  // dotted paths of the fields the issue is reported at, e.g. `['pool.min', 'pool.max']`; the whole configuration
+  // without paths
+  paths?: string[];
+};
+
+/**
+ * Creates a rule from a check returning whether the configuration is valid.
+ */
+export const createRule = <C>(check: (config: C) => boolean, options: RefineOptions): ConfigRule<C> => ({
+  validate: (config, context) => {
+    if (!check(config)) {
+      (options.paths ?? [undefined]).forEach((path) => context.addIssue(options.message, path));
+    }
+  },
+});
+
+/**
+ * Creates a rule requiring fields when a condition holds, e.g. a certificate when TLS is enabled.
+ * Each field that is `undefined` or `null` is reported at its own path, and so with its own env var.
+ *
+ * @param condition - Whether the fields are required
+ * @param paths - Dotted paths of the required fields
+ * @param options - `message` of the issues (default: `Required`)
+ * @returns A rule for `schema.refine()`
+ *
+ * @example
+ * ```typescript
+ * const schema = define({
+ *   tls: object({
+ *     enabled: env('TLS_ENABLED').boolean().default(false),
+ *     cert: env('TLS_CERT').string().optional(),
+ *     key: env('TLS_KEY').secret().string().optional(),
+ *   }),
+ * }).refine(requireIf((config) => config.tls.enabled, ['tls.cert', 'tls.key'], { message: 'Required when TLS is enabled' }));
+ * ```
+ */
+export const requireIf = <C>(
+  condition: (config: C) => boolean,
+  paths: string[],
+  options: { message?: string } = {},
+): ConfigRule<C> => ({
+  validate: (config, context) => {
+    if (!condition(config)) {
+      return;
+    }
+
+    paths
+      .filter((path) => getAtPath(config, path) === undefined || getAtPath(config, path) === null)
+      .forEach((path) => context.addIssue(options.message ?? 'Required', path));
+  },
+});
+
+/**
+ * Checks the rules against a valid configuration.
+ *
+ * @returns Issues reported by the rules, errors thrown by a rule are reported at the whole configuration
+ */
+export const applyRules = <C>(rules: ConfigRule<C>[], config: C): core.$ZodIssue[] => {
+  const issues: core.$ZodIssue[] = [];
+  const context: RuleContext = {
+    addIssue: (message, path) => issues.push({ code: 'custom', path: path ? path.split('.') : [], message }),
+  };
+
+  for (const rule of rules) {
+    try {
+      rule.validate(config, context);
+    } catch (error) {
+      context.addIssue(`Validation rule failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,54 @@
+// "did you mean" suggestions for misspelled keys
+
+// edit distance where swapping two adjacent characters counts as a single typo
+const distance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)),
+  );
+  const at = (i: number, j: number) => rows[i]?.[j] as number;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(at(i - 1, j) + 1, at(i, j - 1) + 1, at(i - 1, j - 1) + cost);
+
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, at(i - 2, j - 2) + 1);
+      }
+
+      (rows[i] as number[])[j] = value;
+    }
+  }
+
+  return at(a.length, b.length);
+};
+
+/**
+ * Finds the candidate closest to a misspelled name, ignoring case.
+ *
+ * @param name - The unknown name
+ * @param candidates - Known names
+ * @returns The closest candidate, or undefined if none is similar enough
+ */
+export const suggest = (name: string, candidates: Iterable<string>): string | undefined => {
+  // allow about one typo per three characters
+  const maxDistance = Math.max(1, Math.floor(name.length / 3));
+  let best: { candidate: string; distance: number } | undefined;
+
+  for (const candidate of candidates) {
+    const candidateDistance = distance(name.toLowerCase(), candidate.toLowerCase());
+
+    if (candidateDistance <= maxDistance && (!best || candidateDistance < best.distance)) {
+      best = { candidate, distance: candidateDistance };
+    }
+  }
+
+  return best?.candidate;
+};
+
+// message suffix with the suggestion, if any
+export const didYouMean = (name: string, candidates: Iterable<string>): string => {
+  const suggestion = suggest(name, candidates);
+
+  return suggestion === undefined ? '' : `, did you mean "${suggestion}"?`;
+};